@@ -0,0 +1,299 @@
+export type AisClass = 'A' | 'B' | 'base';
+
+/** Decoded AIS message, fields that are not available are undefined */
+export interface AisReport {
+    type: number;
+    mmsi: number;
+    class: AisClass;
+    lat?: number;
+    lon?: number;
+    /** speed over ground in knots */
+    sog?: number;
+    /** course over ground in degrees */
+    cog?: number;
+    /** true heading in degrees */
+    heading?: number;
+    navStatus?: number;
+    name?: string;
+    callsign?: string;
+    imo?: number;
+    shipType?: number;
+    destination?: string;
+    /** metres */
+    length?: number;
+    /** metres */
+    beam?: number;
+    /** metres */
+    draught?: number;
+    /** UTC time of base station reports */
+    ts?: number;
+}
+
+/** Navigational status of class A position reports */
+export const AIS_NAV_STATUS: Record<number, string> = {
+    0: 'under way using engine',
+    1: 'at anchor',
+    2: 'not under command',
+    3: 'restricted manoeuvrability',
+    4: 'constrained by draught',
+    5: 'moored',
+    6: 'aground',
+    7: 'engaged in fishing',
+    8: 'under way sailing',
+    14: 'AIS-SART',
+};
+
+// Fragments of multi-sentence messages are dropped after this time in ms
+const FRAGMENT_TIMEOUT = 5000;
+
+const SIXBIT_TEXT = '@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_ !"#$%&\'()*+,-./0123456789:;<=>?';
+
+/** Reads fields from the 6-bit armored payload */
+class AisBits {
+    private readonly bits: number[] = [];
+
+    constructor(payload: string, fillBits: number) {
+        for (let i = 0; i < payload.length; i++) {
+            let value = payload.charCodeAt(i) - 48;
+            if (value > 40) {
+                value -= 8;
+            }
+            for (let bit = 5; bit >= 0; bit--) {
+                this.bits.push((value >> bit) & 1);
+            }
+        }
+        this.bits.length -= Math.min(fillBits, this.bits.length);
+    }
+
+    get length(): number {
+        return this.bits.length;
+    }
+
+    uint(start: number, length: number): number {
+        let value = 0;
+        for (let i = start; i < start + length; i++) {
+            // missing bits of short messages are read as 0
+            value = value * 2 + (this.bits[i] || 0);
+        }
+        return value;
+    }
+
+    int(start: number, length: number): number {
+        const value = this.uint(start, length);
+        return value >= 2 ** (length - 1) ? value - 2 ** length : value;
+    }
+
+    text(start: number, length: number): string {
+        let result = '';
+        for (let i = start; i + 6 <= start + length && i + 6 <= this.bits.length; i += 6) {
+            result += SIXBIT_TEXT[this.uint(i, 6)];
+        }
+        // "@" is the padding
+        return result.replace(/@.*$/, '').trim();
+    }
+}
+
+function position(bits: AisBits, lonStart: number, latStart: number): { lat?: number; lon?: number } {
+    const lon = bits.int(lonStart, 28) / 600000;
+    const lat = bits.int(latStart, 27) / 600000;
+    // 181 and 91 mean "not available"
+    if (Math.abs(lon) > 180 || Math.abs(lat) > 90) {
+        return {};
+    }
+    return { lat: Math.round(lat * 1e6) / 1e6, lon: Math.round(lon * 1e6) / 1e6 };
+}
+
+function motion(
+    bits: AisBits,
+    sogStart: number,
+    cogStart: number,
+    headingStart: number,
+): Pick<AisReport, 'sog' | 'cog' | 'heading'> {
+    const sog = bits.uint(sogStart, 10);
+    const cog = bits.uint(cogStart, 12);
+    const heading = bits.uint(headingStart, 9);
+    return {
+        sog: sog === 1023 ? undefined : sog / 10,
+        cog: cog >= 3600 ? undefined : cog / 10,
+        heading: heading === 511 ? undefined : heading,
+    };
+}
+
+function dimensions(bits: AisBits, start: number): Pick<AisReport, 'length' | 'beam'> {
+    const length = bits.uint(start, 9) + bits.uint(start + 9, 9);
+    const beam = bits.uint(start + 18, 6) + bits.uint(start + 24, 6);
+    return { length: length || undefined, beam: beam || undefined };
+}
+
+/** Remove undefined fields, so that the report can be merged into the known vessel data */
+function compact(report: AisReport): AisReport {
+    for (const key of Object.keys(report) as (keyof AisReport)[]) {
+        if (report[key] === undefined || report[key] === '') {
+            delete report[key];
+        }
+    }
+    return report;
+}
+
+/**
+ * Decode the payload of a complete AIS message
+ *
+ * @param payload 6-bit armored payload of all fragments
+ * @param fillBits number of fill bits at the end
+ * @returns null for message types that are not supported or too short messages
+ */
+export function decodeAis(payload: string, fillBits = 0): AisReport | null {
+    const bits = new AisBits(payload, fillBits);
+    if (bits.length < 38) {
+        return null;
+    }
+    const type = bits.uint(0, 6);
+    const mmsi = bits.uint(8, 30);
+    switch (type) {
+        case 1:
+        case 2:
+        case 3:
+            // class A position report
+            if (bits.length < 168) {
+                return null;
+            }
+            return compact({
+                type,
+                mmsi,
+                class: 'A',
+                navStatus: bits.uint(38, 4),
+                ...motion(bits, 50, 116, 128),
+                ...position(bits, 61, 89),
+            });
+        case 4:
+        case 11: {
+            // base station report and UTC response
+            if (bits.length < 168) {
+                return null;
+            }
+            const year = bits.uint(38, 14);
+            const month = bits.uint(52, 4);
+            const day = bits.uint(56, 5);
+            const hour = bits.uint(61, 5);
+            const minute = bits.uint(66, 6);
+            const second = bits.uint(72, 6);
+            const timeValid = year && month && day && hour < 24 && minute < 60 && second < 60;
+            return compact({
+                type,
+                mmsi,
+                class: 'base',
+                ts: timeValid ? Date.UTC(year, month - 1, day, hour, minute, second) : undefined,
+                ...position(bits, 79, 107),
+            });
+        }
+        case 5: {
+            // static and voyage data of class A
+            if (bits.length < 420) {
+                return null;
+            }
+            const imo = bits.uint(40, 30);
+            const draught = bits.uint(294, 8);
+            return compact({
+                type,
+                mmsi,
+                class: 'A',
+                imo: imo || undefined,
+                callsign: bits.text(70, 42),
+                name: bits.text(112, 120),
+                shipType: bits.uint(232, 8) || undefined,
+                ...dimensions(bits, 240),
+                draught: draught ? draught / 10 : undefined,
+                destination: bits.text(302, 120),
+            });
+        }
+        case 18:
+            // class B position report
+            if (bits.length < 168) {
+                return null;
+            }
+            return compact({ type, mmsi, class: 'B', ...motion(bits, 46, 112, 124), ...position(bits, 57, 85) });
+        case 19:
+            // extended class B position report
+            if (bits.length < 312) {
+                return null;
+            }
+            return compact({
+                type,
+                mmsi,
+                class: 'B',
+                ...motion(bits, 46, 112, 124),
+                ...position(bits, 57, 85),
+                name: bits.text(143, 120),
+                shipType: bits.uint(263, 8) || undefined,
+                ...dimensions(bits, 271),
+            });
+        case 24: {
+            // static data of class B, in two parts
+            const part = bits.uint(38, 2);
+            if (part === 0 && bits.length >= 160) {
+                return compact({ type, mmsi, class: 'B', name: bits.text(40, 120) });
+            }
+            if (part === 1 && bits.length >= 162) {
+                return compact({
+                    type,
+                    mmsi,
+                    class: 'B',
+                    shipType: bits.uint(40, 8) || undefined,
+                    callsign: bits.text(90, 42),
+                    ...dimensions(bits, 132),
+                });
+            }
+            return null;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Collects the fragments of !AIVDM and !AIVDO sentences and decodes complete messages
+ */
+export class AisDecoder {
+    private readonly fragments = new Map<string, { parts: string[]; ts: number }>();
+
+    /**
+     * @param fields fields of the sentence without checksum: !--VDM,count,number,sequenceId,channel,payload,fillBits
+     * @returns the decoded message if this was the last fragment, otherwise null
+     */
+    push(fields: string[], now: number = Date.now()): AisReport | null {
+        const count = parseInt(fields[1], 10);
+        const number = parseInt(fields[2], 10);
+        const payload = fields[5] || '';
+        const fillBits = parseInt(fields[6], 10) || 0;
+        if (!(count >= 1) || !(number >= 1) || number > count) {
+            return null;
+        }
+        if (count === 1) {
+            return decodeAis(payload, fillBits);
+        }
+
+        for (const [key, item] of this.fragments) {
+            if (now - item.ts > FRAGMENT_TIMEOUT) {
+                this.fragments.delete(key);
+            }
+        }
+        // the sequence ID distinguishes interleaved multi-sentence messages
+        const key = `${fields[0]},${fields[3]},${fields[4]}`;
+        let item = this.fragments.get(key);
+        if (number === 1 || !item) {
+            item = { parts: [], ts: now };
+            this.fragments.set(key, item);
+        }
+        if (item.parts.length !== number - 1) {
+            // a fragment is missing
+            this.fragments.delete(key);
+            return null;
+        }
+        item.parts.push(payload);
+        if (number < count) {
+            return null;
+        }
+        this.fragments.delete(key);
+        return decodeAis(item.parts.join(''), fillBits);
+    }
+}
@@ -0,0 +1,138 @@
+import { type LatLon, destination, distance } from './geo';
+
+export interface AnchorStatus {
+    /** position of the anchor, null if the anchor is up */
+    anchor: LatLon | null;
+    /** time when the anchor was dropped */
+    dropTime: number;
+    /** largest distance from the anchor since it was dropped, in metres */
+    maxDistance: number;
+    alarm: boolean;
+}
+
+export interface AnchorUpdate {
+    /** distance from the anchor in metres */
+    distance: number;
+    maxDistance: number;
+    alarm: boolean;
+    /** the alarm was raised with this position */
+    alarmRaised: boolean;
+}
+
+/**
+ * Parse an offset like "30,45": the anchor lies 30 m from the current position in the direction 45°
+ *
+ * @returns null if the text is not a valid offset
+ */
+export function parseAnchorOffset(text: string): { distance: number; bearing: number } | null {
+    const parts = text.split(/[,;\s]+/).filter(item => item);
+    if (parts.length !== 2) {
+        return null;
+    }
+    const dist = parseFloat(parts[0]);
+    const brg = parseFloat(parts[1]);
+    if (!(dist >= 0) || isNaN(brg)) {
+        return null;
+    }
+    return { distance: dist, bearing: ((brg % 360) + 360) % 360 };
+}
+
+/**
+ * Anchor watch: raises an alarm if the boat is outside the swing radius for some consecutive fixes.
+ * The alarm stays on until it is acknowledged or the anchor is raised.
+ */
+export class AnchorWatch {
+    private status: AnchorStatus = { anchor: null, dropTime: 0, maxDistance: 0, alarm: false };
+    /** consecutive fixes outside the radius */
+    private outside = 0;
+    /** time of the last counted fix */
+    private lastTs = 0;
+
+    /**
+     * @param radius swing radius in metres
+     * @param confirmFixes number of consecutive fixes outside the radius that raise the alarm
+     */
+    constructor(
+        public radius: number,
+        private readonly confirmFixes: number,
+    ) {}
+
+    get anchor(): LatLon | null {
+        return this.status.anchor;
+    }
+
+    get dropTime(): number {
+        return this.status.dropTime;
+    }
+
+    get maxDistance(): number {
+        return this.status.maxDistance;
+    }
+
+    get alarm(): boolean {
+        return this.status.alarm;
+    }
+
+    /** Continue with the status from before restart */
+    restore(status: AnchorStatus): void {
+        this.status = { ...status };
+        this.outside = 0;
+        this.lastTs = 0;
+    }
+
+    /**
+     * Drop the anchor at the given position or at an offset from it
+     *
+     * @param offset distance in metres and bearing in degrees from the position to the anchor
+     */
+    drop(lat: number, lon: number, offset?: { distance: number; bearing: number }, now: number = Date.now()): LatLon {
+        const anchor: LatLon = offset?.distance ? destination(lat, lon, offset.distance, offset.bearing) : [lat, lon];
+        this.status = {
+            anchor,
+            dropTime: now,
+            maxDistance: Math.round(distance(lat, lon, anchor[0], anchor[1])),
+            alarm: false,
+        };
+        this.outside = 0;
+        this.lastTs = 0;
+        return anchor;
+    }
+
+    raise(): void {
+        this.status = { anchor: null, dropTime: 0, maxDistance: 0, alarm: false };
+        this.outside = 0;
+        this.lastTs = 0;
+    }
+
+    acknowledge(): void {
+        this.status.alarm = false;
+        this.outside = 0;
+    }
+
+    /**
+     * Check a good fix. Fixes with bad quality must not be passed, so that GPS noise does not raise the alarm.
+     *
+     * @param ts time of the fix, further sentences of the same epoch are not counted as consecutive fixes
+     * @returns null if the anchor is up
+     */
+    update(lat: number, lon: number, ts: number = Date.now()): AnchorUpdate | null {
+        const anchor = this.status.anchor;
+        if (!anchor) {
+            return null;
+        }
+        const dist = Math.round(distance(lat, lon, anchor[0], anchor[1]));
+        this.status.maxDistance = Math.max(this.status.maxDistance, dist);
+        let alarmRaised = false;
+        // further sentences of the same epoch are not counted
+        if (ts > this.lastTs) {
+            this.lastTs = ts;
+            if (dist <= this.radius) {
+                this.outside = 0;
+            } else if (++this.outside >= this.confirmFixes && !this.status.alarm) {
+                this.status.alarm = true;
+                alarmRaised = true;
+            }
+        }
+        return { distance: dist, maxDistance: this.status.maxDistance, alarm: this.status.alarm, alarmRaised };
+    }
+}
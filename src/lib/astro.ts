@@ -0,0 +1,107 @@
+export interface SunPosition {
+    /** degrees above the horizon, negative below */
+    elevation: number;
+    /** degrees, 0 = north, 90 = east */
+    azimuth: number;
+}
+
+export interface SunTimes {
+    /** begin of the civil twilight, null if the sun does not go this far below the horizon */
+    dawn: number | null;
+    sunrise: number | null;
+    solarNoon: number;
+    sunset: number | null;
+    /** end of the civil twilight */
+    dusk: number | null;
+}
+
+// Formulas of the astronomical almanac as used by SunCalc, accurate to about a minute
+const DAY_MS = 86400000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = toRad(23.4397);
+
+// sun altitudes of the events: upper limb with refraction and civil twilight
+const SUNRISE_ALTITUDE = toRad(-0.833);
+const CIVIL_TWILIGHT_ALTITUDE = toRad(-6);
+
+function toRad(deg: number): number {
+    return (deg * Math.PI) / 180;
+}
+
+function toDeg(rad: number): number {
+    return (rad * 180) / Math.PI;
+}
+
+/** Days since J2000 */
+function toDays(ts: number): number {
+    return ts / DAY_MS - 0.5 + J1970 - J2000;
+}
+
+function fromJulian(j: number): number {
+    return Math.round((j + 0.5 - J1970) * DAY_MS);
+}
+
+function solarMeanAnomaly(d: number): number {
+    return toRad(357.5291 + 0.98560028 * d);
+}
+
+function eclipticLongitude(m: number): number {
+    const center = toRad(1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m));
+    // perihelion of the earth
+    return m + center + toRad(102.9372) + Math.PI;
+}
+
+function declination(l: number): number {
+    return Math.asin(Math.sin(OBLIQUITY) * Math.sin(l));
+}
+
+function rightAscension(l: number): number {
+    return Math.atan2(Math.sin(l) * Math.cos(OBLIQUITY), Math.cos(l));
+}
+
+/** Position of the sun at the given time seen from the given place */
+export function sunPosition(ts: number, lat: number, lon: number): SunPosition {
+    const d = toDays(ts);
+    const l = eclipticLongitude(solarMeanAnomaly(d));
+    const dec = declination(l);
+    const φ = toRad(lat);
+    const hourAngle = toRad(280.16 + 360.9856235 * d) + toRad(lon) - rightAscension(l);
+    const elevation = Math.asin(Math.sin(φ) * Math.sin(dec) + Math.cos(φ) * Math.cos(dec) * Math.cos(hourAngle));
+    // measured from south, turned to north
+    const azimuth = Math.atan2(Math.sin(hourAngle), Math.cos(hourAngle) * Math.sin(φ) - Math.tan(dec) * Math.cos(φ));
+    return { elevation: toDeg(elevation), azimuth: (toDeg(azimuth) + 180 + 360) % 360 };
+}
+
+/**
+ * Sunrise, sunset and civil twilight of the solar day around the given time at the given place.
+ * In polar day or night the events that do not happen are null.
+ */
+export function sunTimes(ts: number, lat: number, lon: number): SunTimes {
+    // longitude to the west, as in the formulas
+    const lw = -toRad(lon);
+    const φ = toRad(lat);
+    const cycle = Math.round(toDays(ts) - J0 - lw / (2 * Math.PI));
+    const approxTransit = (hourAngle: number): number => J0 + (hourAngle + lw) / (2 * Math.PI) + cycle;
+
+    const ds = approxTransit(0);
+    const m = solarMeanAnomaly(ds);
+    const l = eclipticLongitude(m);
+    const dec = declination(l);
+    const transit = (days: number): number => J2000 + days + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * l);
+    const noon = transit(ds);
+
+    const event = (altitude: number): [number | null, number | null] => {
+        const cosH = (Math.sin(altitude) - Math.sin(φ) * Math.sin(dec)) / (Math.cos(φ) * Math.cos(dec));
+        if (!(cosH >= -1 && cosH <= 1)) {
+            return [null, null];
+        }
+        const set = transit(approxTransit(Math.acos(cosH)));
+        return [fromJulian(noon - (set - noon)), fromJulian(set)];
+    };
+
+    const [sunrise, sunset] = event(SUNRISE_ALTITUDE);
+    const [dawn, dusk] = event(CIVIL_TWILIGHT_ALTITUDE);
+    return { dawn, sunrise, solarNoon: fromJulian(noon), sunset, dusk };
+}
@@ -0,0 +1,191 @@
+export interface UtmCoordinate {
+    zone: number;
+    /** latitude band letter C..X */
+    band: string;
+    easting: number;
+    northing: number;
+}
+
+// WGS84 ellipsoid
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const UTM_K0 = 0.9996;
+
+const UTM_BANDS = 'CDEFGHJKLMNPQRSTUVWXX';
+const MGRS_COLUMNS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROWS = 'ABCDEFGHJKLMNPQRSTUV';
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+function toRad(deg: number): number {
+    return (deg * Math.PI) / 180;
+}
+
+/**
+ * Degrees, minutes and seconds, e.g. 48°08'15.6"N
+ *
+ * @param value decimal degrees
+ * @param isLatitude N/S for latitude, E/W for longitude
+ */
+export function toDms(value: number, isLatitude: boolean): string {
+    const hemisphere = isLatitude ? (value < 0 ? 'S' : 'N') : value < 0 ? 'W' : 'E';
+    // round to 0.1 seconds first, so that 59.96" does not become 60.0"
+    const tenths = Math.round(Math.abs(value) * 36000);
+    const deg = Math.floor(tenths / 36000);
+    const min = Math.floor((tenths % 36000) / 600);
+    const sec = ((tenths % 600) / 10).toFixed(1).padStart(4, '0');
+    return `${deg}°${min.toString().padStart(2, '0')}'${sec}"${hemisphere}`;
+}
+
+/** UTM zone number with the exceptions for Norway and Svalbard */
+function utmZone(lat: number, lon: number): number {
+    let zone = Math.floor((lon + 180) / 6) + 1;
+    if (zone > 60) {
+        zone = 60;
+    }
+    if (lat >= 56 && lat < 64 && lon >= 3 && lon < 12) {
+        return 32;
+    }
+    if (lat >= 72 && lat < 84 && lon >= 0 && lon < 42) {
+        if (lon < 9) {
+            return 31;
+        }
+        if (lon < 21) {
+            return 33;
+        }
+        if (lon < 33) {
+            return 35;
+        }
+        return 37;
+    }
+    return zone;
+}
+
+/**
+ * Universal Transverse Mercator coordinate (transverse Mercator series of Krüger, accurate to millimetres)
+ *
+ * @returns null outside of 80°S..84°N, where UPS would be used
+ */
+export function toUtm(lat: number, lon: number): UtmCoordinate | null {
+    if (!(lat >= -80 && lat <= 84) || !(lon >= -180 && lon <= 180)) {
+        return null;
+    }
+    const zone = utmZone(lat, lon);
+    const band = UTM_BANDS[Math.floor((lat + 80) / 8)];
+    const λ0 = toRad((zone - 1) * 6 - 180 + 3);
+
+    const n = WGS84_F / (2 - WGS84_F);
+    const e = Math.sqrt(WGS84_F * (2 - WGS84_F));
+    const A = (WGS84_A / (1 + n)) * (1 + n ** 2 / 4 + n ** 4 / 64 + n ** 6 / 256);
+    const α = [
+        n / 2 - (2 / 3) * n ** 2 + (5 / 16) * n ** 3 + (41 / 180) * n ** 4,
+        (13 / 48) * n ** 2 - (3 / 5) * n ** 3 + (557 / 1440) * n ** 4,
+        (61 / 240) * n ** 3 - (103 / 140) * n ** 4,
+        (49561 / 161280) * n ** 4,
+    ];
+
+    const φ = toRad(lat);
+    const λ = toRad(lon) - λ0;
+    // conformal latitude
+    const t = Math.sinh(Math.atanh(Math.sin(φ)) - e * Math.atanh(e * Math.sin(φ)));
+    const ξʹ = Math.atan2(t, Math.cos(λ));
+    const ηʹ = Math.atanh(Math.sin(λ) / Math.sqrt(1 + t * t));
+    let ξ = ξʹ;
+    let η = ηʹ;
+    for (let j = 1; j <= α.length; j++) {
+        ξ += α[j - 1] * Math.sin(2 * j * ξʹ) * Math.cosh(2 * j * ηʹ);
+        η += α[j - 1] * Math.cos(2 * j * ξʹ) * Math.sinh(2 * j * ηʹ);
+    }
+
+    const easting = UTM_K0 * A * η + 500000;
+    let northing = UTM_K0 * A * ξ;
+    if (lat < 0) {
+        northing += 10000000;
+    }
+    return { zone, band, easting, northing };
+}
+
+/** UTM as text, e.g. 32U 691607 5334759 */
+export function formatUtm(utm: UtmCoordinate): string {
+    return `${utm.zone}${utm.band} ${Math.floor(utm.easting)} ${Math.floor(utm.northing)}`;
+}
+
+/**
+ * Military Grid Reference System, e.g. 32U PU 91607 34759
+ *
+ * @param utm UTM coordinate of the point
+ * @param digits digits per easting and northing, 5 = 1 m, 4 = 10 m, ...
+ */
+export function toMgrs(utm: UtmCoordinate, digits = 5): string {
+    const column = Math.floor(utm.easting / 100000);
+    const row = Math.floor(utm.northing / 100000) % 20;
+    // the 100 km letters repeat every third zone for columns and every second zone for rows
+    const columnLetter = MGRS_COLUMNS[(utm.zone - 1) % 3][column - 1];
+    const rowLetter = MGRS_ROWS[(row + (utm.zone % 2 === 0 ? 5 : 0)) % 20];
+    const divisor = 10 ** (5 - digits);
+    const e = Math.floor((utm.easting % 100000) / divisor)
+        .toString()
+        .padStart(digits, '0');
+    const n = Math.floor((utm.northing % 100000) / divisor)
+        .toString()
+        .padStart(digits, '0');
+    return `${utm.zone.toString().padStart(2, '0')}${utm.band} ${columnLetter}${rowLetter} ${e} ${n}`;
+}
+
+/**
+ * Maidenhead locator used by radio amateurs, e.g. JN58td
+ *
+ * @param length 4, 6 or 8 characters
+ */
+export function toMaidenhead(lat: number, lon: number, length = 6): string {
+    // the east and north edges belong to the last field
+    let x = Math.min(Math.max(lon + 180, 0), 360 - 1e-9);
+    let y = Math.min(Math.max(lat + 90, 0), 180 - 1e-9);
+    let result = String.fromCharCode(65 + Math.floor(x / 20), 65 + Math.floor(y / 10));
+    x %= 20;
+    y %= 10;
+    result += `${Math.floor(x / 2)}${Math.floor(y)}`;
+    if (length >= 6) {
+        // subsquares of 5' x 2.5'
+        x = (x % 2) * 12;
+        y = (y % 1) * 24;
+        result += String.fromCharCode(97 + Math.floor(x), 97 + Math.floor(y));
+        if (length >= 8) {
+            result += `${Math.floor((x % 1) * 10)}${Math.floor((y % 1) * 10)}`;
+        }
+    }
+    return result;
+}
+
+/**
+ * Geohash, e.g. u281z7j5
+ *
+ * @param precision number of characters, 1..12
+ */
+export function toGeohash(lat: number, lon: number, precision = 9): string {
+    const latRange = [-90, 90];
+    const lonRange = [-180, 180];
+    let result = '';
+    let bits = 0;
+    let value = 0;
+    let even = true;
+    while (result.length < precision) {
+        // even bits refine the longitude, odd bits the latitude
+        const range = even ? lonRange : latRange;
+        const coordinate = even ? lon : lat;
+        const mid = (range[0] + range[1]) / 2;
+        value <<= 1;
+        if (coordinate >= mid) {
+            value |= 1;
+            range[0] = mid;
+        } else {
+            range[1] = mid;
+        }
+        even = !even;
+        if (++bits === 5) {
+            result += GEOHASH_BASE32[value];
+            bits = 0;
+            value = 0;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,82 @@
+/** Complete fix of one epoch, as written to gps.fix */
+export interface GpsFix {
+    /** UTC time of the fix */
+    ts: number;
+    lat?: number;
+    lon?: number;
+    /** false if the receiver marked the position as void */
+    valid?: boolean;
+    /** altitude above mean sea level in metres */
+    alt?: number;
+    /** km/h */
+    speed?: number;
+    course?: number;
+    /** GGA fix quality */
+    quality?: number;
+    /** "2D" or "3D" */
+    mode?: string;
+    satellites?: number;
+    hdop?: number;
+    pdop?: number;
+    vdop?: number;
+}
+
+function setValue<K extends keyof GpsFix>(fix: GpsFix, key: K, value: GpsFix[K] | undefined): void {
+    if (value !== undefined) {
+        fix[key] = value;
+    }
+}
+
+/**
+ * Merges the data of the sentences of one epoch (e.g. GGA, RMC and GSA with the same time) into one fix.
+ * The epoch is complete when a sentence with another time arrives or no data came for some time.
+ */
+export class FixEpoch {
+    private fix: GpsFix | null = null;
+    private updated = 0;
+    /** time of the last completed epoch, later data of it is ignored */
+    private completedTs = 0;
+
+    /**
+     * @param ts UTC time of the fix the data belongs to, 0 if not known yet
+     * @param data values of the sentence, undefined values are ignored
+     * @returns the fix of the previous epoch if this data starts a new one
+     */
+    merge(ts: number, data: Omit<GpsFix, 'ts'>, now: number = Date.now()): GpsFix | null {
+        if (ts && ts === this.completedTs) {
+            return null;
+        }
+        let completed: GpsFix | null = null;
+        if (this.fix && this.fix.ts !== ts) {
+            if (this.fix.ts) {
+                completed = this.fix;
+                this.completedTs = completed.ts;
+                this.fix = null;
+            } else {
+                // data before the first time belongs to the first epoch
+                this.fix.ts = ts;
+            }
+        }
+        const fix = (this.fix ||= { ts });
+        for (const key of Object.keys(data) as (keyof typeof data)[]) {
+            setValue(fix, key, data[key]);
+        }
+        this.updated = now;
+        return completed;
+    }
+
+    /**
+     * Complete the epoch if no data came for the given time, e.g. because the receiver stopped sending
+     *
+     * @returns the fix or null if there is no epoch or it is still receiving data
+     */
+    flush(timeout: number, now: number = Date.now()): GpsFix | null {
+        if (!this.fix?.ts || now - this.updated < timeout) {
+            return null;
+        }
+        const fix = this.fix;
+        this.completedTs = fix.ts;
+        this.fix = null;
+        return fix;
+    }
+}
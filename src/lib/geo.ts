@@ -0,0 +1,99 @@
+/** Mean earth radius in metres (IUGG) */
+export const EARTH_RADIUS = 6371008.8;
+
+export type LatLon = [lat: number, lon: number];
+
+function toRad(deg: number): number {
+    return (deg * Math.PI) / 180;
+}
+
+function toDeg(rad: number): number {
+    return (rad * 180) / Math.PI;
+}
+
+/** Great-circle distance between two points in metres (haversine) */
+export function distance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const dLat = toRad(lat2 - lat1);
+    const dLon = toRad(lon2 - lon1);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Initial bearing from point 1 to point 2 in degrees (0..360, 0 = north) */
+export function bearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const φ1 = toRad(lat1);
+    const φ2 = toRad(lat2);
+    const dLon = toRad(lon2 - lon1);
+    const y = Math.sin(dLon) * Math.cos(φ2);
+    const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(dLon);
+    return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+/** Point reached from a start point after the given distance (m) on the given bearing (degrees) */
+export function destination(lat: number, lon: number, distanceM: number, bearingDeg: number): LatLon {
+    const δ = distanceM / EARTH_RADIUS;
+    const θ = toRad(bearingDeg);
+    const φ1 = toRad(lat);
+    const λ1 = toRad(lon);
+    const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
+    const λ2 = λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
+    return [toDeg(φ2), ((toDeg(λ2) + 540) % 360) - 180];
+}
+
+/** Ray casting test, the polygon is given as list of [lat, lon] and is closed implicitly */
+export function pointInPolygon(lat: number, lon: number, polygon: LatLon[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [latI, lonI] = polygon[i];
+        const [latJ, lonJ] = polygon[j];
+        if (latI > lat !== latJ > lat && lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * Shortest distance in metres from a point to the outline of a polygon.
+ * Uses a local flat projection around the point, which is exact enough for zones up to some kilometres.
+ */
+export function distanceToPolygonEdge(lat: number, lon: number, polygon: LatLon[]): number {
+    const kLat = toRad(1) * EARTH_RADIUS;
+    const kLon = kLat * Math.cos(toRad(lat));
+    let min = Infinity;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const ax = (polygon[j][1] - lon) * kLon;
+        const ay = (polygon[j][0] - lat) * kLat;
+        const bx = (polygon[i][1] - lon) * kLon;
+        const by = (polygon[i][0] - lat) * kLat;
+        const dx = bx - ax;
+        const dy = by - ay;
+        const len2 = dx * dx + dy * dy;
+        // projection of the origin (current position) onto the segment
+        const t = len2 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2)) : 0;
+        const px = ax + t * dx;
+        const py = ay + t * dy;
+        min = Math.min(min, Math.sqrt(px * px + py * py));
+    }
+    return min;
+}
+
+/**
+ * Parse a list of coordinates like "48.1,11.5; 48.2,11.6; 48.1,11.7"
+ *
+ * @returns list of [lat, lon] or null if the text is not valid
+ */
+export function parseCoordinateList(text: string): LatLon[] | null {
+    const points: LatLon[] = [];
+    for (const pair of text.split(/[;\n]/)) {
+        if (!pair.trim()) {
+            continue;
+        }
+        const [lat, lon] = pair.split(',').map(v => parseFloat(v));
+        if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+            return null;
+        }
+        points.push([lat, lon]);
+    }
+    return points;
+}
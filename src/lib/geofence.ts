@@ -0,0 +1,147 @@
+import { type LatLon, distance, distanceToPolygonEdge, parseCoordinateList, pointInPolygon } from './geo';
+import type { GeofenceZoneConfig } from '../types';
+
+export interface GeofenceZone {
+    /** ID of the channel below "zones" */
+    id: string;
+    name: string;
+    type: 'circle' | 'polygon';
+    center?: LatLon;
+    radius?: number;
+    polygon?: LatLon[];
+}
+
+export interface ZoneStatus {
+    inside: boolean;
+    /** timestamp of the last enter, 0 if never */
+    lastEnter: number;
+    /** timestamp of the last leave, 0 if never */
+    lastLeave: number;
+}
+
+export interface ZoneUpdate extends ZoneStatus {
+    zone: GeofenceZone;
+    /** distance to the zone border in metres, negative inside the zone */
+    distance: number;
+    /** seconds inside the zone for the current stay, or duration of the last stay if outside */
+    dwell: number;
+    /** "enter" or "leave" if the inside state toggled with this position */
+    event: 'enter' | 'leave' | null;
+}
+
+/** Create the channel ID for a zone name */
+export function zoneId(name: string): string {
+    return name.trim().replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+/**
+ * Validate the zones from the instance configuration
+ *
+ * @param configs zones as configured in the table
+ * @param onError called for every invalid zone
+ */
+export function parseZones(configs: GeofenceZoneConfig[] | undefined, onError: (text: string) => void): GeofenceZone[] {
+    const zones: GeofenceZone[] = [];
+    for (const config of configs || []) {
+        if (config.enabled === false) {
+            continue;
+        }
+        const name = (config.name || '').trim();
+        const id = zoneId(name);
+        if (!id) {
+            onError('Zone without name ignored');
+            continue;
+        }
+        if (zones.find(zone => zone.id === id)) {
+            onError(`Zone "${name}" is defined twice`);
+            continue;
+        }
+        if (config.type === 'polygon') {
+            const polygon = parseCoordinateList(config.polygon || '');
+            if (!polygon || polygon.length < 3) {
+                onError(
+                    `Zone "${name}" has no valid polygon. Expected at least 3 points like "lat,lon; lat,lon; lat,lon"`,
+                );
+                continue;
+            }
+            zones.push({ id, name, type: 'polygon', polygon });
+        } else {
+            const lat = parseFloat(config.latitude as string);
+            const lon = parseFloat(config.longitude as string);
+            const radius = parseFloat(config.radius as string);
+            if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180 || !(radius > 0)) {
+                onError(`Zone "${name}" has no valid center or radius`);
+                continue;
+            }
+            zones.push({ id, name, type: 'circle', center: [lat, lon], radius });
+        }
+    }
+    return zones;
+}
+
+/**
+ * Signed distance from a position to the border of the zone
+ *
+ * @returns metres, negative inside the zone
+ */
+export function zoneDistance(zone: GeofenceZone, lat: number, lon: number): number {
+    if (zone.type === 'circle') {
+        return distance(lat, lon, zone.center![0], zone.center![1]) - zone.radius!;
+    }
+    const edge = distanceToPolygonEdge(lat, lon, zone.polygon!);
+    return pointInPolygon(lat, lon, zone.polygon!) ? -edge : edge;
+}
+
+/**
+ * Tracks for every zone if the position is inside. The zone is entered as soon as the position is inside the border,
+ * but left only if the position is more than `hysteresis` metres outside, so drift on the border does not toggle it.
+ */
+export class Geofences {
+    private readonly status = new Map<string, ZoneStatus>();
+
+    constructor(
+        public readonly zones: GeofenceZone[],
+        private readonly hysteresis: number,
+    ) {}
+
+    /** Restore the status of a zone, e.g. from the states after restart */
+    restore(id: string, status: ZoneStatus): void {
+        this.status.set(id, status);
+    }
+
+    update(lat: number, lon: number, now: number = Date.now()): ZoneUpdate[] {
+        return this.zones.map(zone => {
+            const dist = zoneDistance(zone, lat, lon);
+            let status = this.status.get(zone.id);
+            if (!status) {
+                status = { inside: false, lastEnter: 0, lastLeave: 0 };
+                this.status.set(zone.id, status);
+            }
+            let event: ZoneUpdate['event'] = null;
+            if (!status.inside && dist <= 0) {
+                status.inside = true;
+                status.lastEnter = now;
+                event = 'enter';
+            } else if (status.inside && dist > this.hysteresis) {
+                status.inside = false;
+                status.lastLeave = now;
+                event = 'leave';
+            }
+
+            let dwell = 0;
+            if (status.inside && status.lastEnter) {
+                dwell = now - status.lastEnter;
+            } else if (status.lastEnter && status.lastLeave > status.lastEnter) {
+                dwell = status.lastLeave - status.lastEnter;
+            }
+
+            return {
+                zone,
+                ...status,
+                distance: Math.round(dist),
+                dwell: Math.floor(dwell / 1000),
+                event,
+            };
+        });
+    }
+}
@@ -0,0 +1,135 @@
+import { GNSS_IDS, type SatelliteInView, constellationByPrn } from './sky';
+
+export const GPSD_DEFAULT_PORT = 2947;
+
+/** Command to start streaming of JSON reports */
+export const GPSD_WATCH = '?WATCH={"enable":true,"json":true};\n';
+
+/** Time-Position-Velocity report, see https://gpsd.gitlab.io/gpsd/gpsd_json.html */
+export interface GpsdTpv {
+    class: 'TPV';
+    device?: string;
+    /** 0/1 - no fix, 2 - 2D, 3 - 3D */
+    mode: number;
+    /** 0 unknown, 1 normal, 2 DGPS, 3 RTK fixed, 4 RTK float, 5 DR, 6 GNSS+DR, 7 time only, 8 simulated */
+    status?: number;
+    time?: string;
+    lat?: number;
+    lon?: number;
+    /** deprecated, MSL altitude in older gpsd versions */
+    alt?: number;
+    altMSL?: number;
+    altHAE?: number;
+    geoidSep?: number;
+    /** speed over ground in m/s */
+    speed?: number;
+    /** course over ground, degrees from true north */
+    track?: number;
+    /** longitude error estimate in m */
+    epx?: number;
+    /** latitude error estimate in m */
+    epy?: number;
+    /** vertical error estimate in m */
+    epv?: number;
+    /** horizontal error estimate in m */
+    eph?: number;
+}
+
+export interface GpsdSkySatellite {
+    PRN: number;
+    gnssid?: number;
+    svid?: number;
+    el?: number;
+    az?: number;
+    ss?: number;
+    used: boolean;
+}
+
+export interface GpsdSky {
+    class: 'SKY';
+    hdop?: number;
+    vdop?: number;
+    pdop?: number;
+    nSat?: number;
+    uSat?: number;
+    satellites?: GpsdSkySatellite[];
+}
+
+export interface GpsdToff {
+    class: 'TOFF';
+    real_sec: number;
+    real_nsec: number;
+    clock_sec: number;
+    clock_nsec: number;
+}
+
+export interface GpsdError {
+    class: 'ERROR';
+    message: string;
+}
+
+export type GpsdReport = GpsdTpv | GpsdSky | GpsdToff | GpsdError | { class: string };
+
+/**
+ * Parse one line of the gpsd JSON stream
+ *
+ * @param line one JSON object as sent by gpsd
+ * @returns the report or null if the line is not a valid report
+ */
+export function parseGpsdReport(line: string): GpsdReport | null {
+    const text = line.trim();
+    if (!text.startsWith('{')) {
+        return null;
+    }
+    try {
+        const report = JSON.parse(text);
+        return report && typeof report.class === 'string' ? report : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Map the gpsd TPV status to the GGA fix quality */
+export function gpsdFixQuality(tpv: GpsdTpv): number {
+    if (tpv.mode < 2) {
+        return 0;
+    }
+    switch (tpv.status) {
+        case 2:
+            return 2;
+        case 3:
+            return 4;
+        case 4:
+            return 5;
+        case 5:
+        case 6:
+            return 6;
+        case 8:
+            return 8;
+        default:
+            return 1;
+    }
+}
+
+/** Convert the satellites of a SKY report into the sky view representation */
+export function gpsdSatellites(sky: GpsdSky): SatelliteInView[] {
+    return (sky.satellites || []).map(sat => ({
+        constellation: sat.gnssid !== undefined ? GNSS_IDS[sat.gnssid] || 'unknown' : constellationByPrn(sat.PRN),
+        prn: sat.svid ?? sat.PRN,
+        elevation: sat.el ?? null,
+        azimuth: sat.az ?? null,
+        snr: sat.ss ?? null,
+        used: !!sat.used,
+    }));
+}
+
+/**
+ * Offset of the system clock against GPS time from a TOFF report
+ *
+ * @returns positive value if the system clock is ahead, in milliseconds
+ */
+export function gpsdTimeOffset(toff: GpsdToff): number {
+    const real = toff.real_sec * 1000 + toff.real_nsec / 1e6;
+    const clock = toff.clock_sec * 1000 + toff.clock_nsec / 1e6;
+    return Math.round((clock - real) * 1000) / 1000;
+}
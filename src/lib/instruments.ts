@@ -0,0 +1,249 @@
+/** Value of a state in the channel "instruments" */
+export interface InstrumentReading {
+    /** ID below "instruments" */
+    id: string;
+    value: number;
+    /** only for generic transducers, the others are described in INSTRUMENT_STATES */
+    common?: { name: string; role: string; unit?: string };
+}
+
+export interface TrueWind {
+    /** angle relative to the bow, 0..360, clockwise */
+    angle: number;
+    /** knots */
+    speed: number;
+    /** direction the wind comes from relative to north */
+    direction: number;
+}
+
+/** Sentence types without talker ID that are handled here */
+export const INSTRUMENT_SENTENCES = ['DBT', 'DPT', 'MWV', 'MWD', 'VWR', 'MTW', 'VHW', 'HDG', 'HDM', 'XDR'];
+
+/** Known states of the channel "instruments" */
+export const INSTRUMENT_STATES: Record<string, { name: string; role: string; unit?: string }> = {
+    depth_transducer: { name: 'Depth below transducer', role: 'value.distance', unit: 'm' },
+    transducer_offset: { name: 'Transducer offset', role: 'value.distance', unit: 'm' },
+    depth: { name: 'Depth', role: 'value.distance', unit: 'm' },
+    wind_apparent_angle: { name: 'Apparent wind angle', role: 'value.direction.wind', unit: '°' },
+    wind_apparent_speed: { name: 'Apparent wind speed', role: 'value.speed.wind', unit: 'kn' },
+    wind_true_angle: { name: 'True wind angle', role: 'value.direction.wind', unit: '°' },
+    wind_true_speed: { name: 'True wind speed', role: 'value.speed.wind', unit: 'kn' },
+    wind_true_direction: { name: 'True wind direction', role: 'value.direction.wind', unit: '°' },
+    water_temperature: { name: 'Water temperature', role: 'value.temperature', unit: '°C' },
+    speed_through_water: { name: 'Speed through water', role: 'value.speed', unit: 'kn' },
+    heading_magnetic: { name: 'Magnetic heading', role: 'value.direction', unit: '°' },
+    magnetic_deviation: { name: 'Magnetic deviation', role: 'value', unit: '°' },
+    magnetic_variation: { name: 'Magnetic variation', role: 'value', unit: '°' },
+};
+
+// Units of XDR transducers
+const XDR_UNITS: Record<string, string> = {
+    C: '°C',
+    B: 'hPa',
+    P: 'Pa',
+    H: '%',
+    D: '°',
+    M: 'm',
+    A: 'A',
+    V: 'V',
+    R: 'rpm',
+    L: 'l',
+};
+
+// Roles of XDR transducer types
+const XDR_ROLES: Record<string, string> = {
+    C: 'value.temperature',
+    P: 'value.pressure',
+    H: 'value.humidity',
+    A: 'value.direction',
+    U: 'value.voltage',
+    I: 'value.current',
+    T: 'value.speed',
+};
+
+function num(text: string | undefined): number | null {
+    if (!text) {
+        return null;
+    }
+    const value = parseFloat(text);
+    return isNaN(value) ? null : value;
+}
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+function normalize(angle: number): number {
+    return ((angle % 360) + 360) % 360;
+}
+
+/** Wind speed in knots from a value with the MWV unit K, M, N or S */
+function windKnots(speed: number, unit: string): number {
+    switch (unit) {
+        case 'K':
+            return speed / 1.852;
+        case 'M':
+            return (speed * 3.6) / 1.852;
+        case 'S':
+            // statute miles per hour
+            return speed * 0.868976;
+        default:
+            return speed;
+    }
+}
+
+/**
+ * Convert a marine instrument sentence into readings
+ *
+ * @param type sentence type without talker ID, one of INSTRUMENT_SENTENCES
+ * @param fields fields of the sentence without checksum, the first one is the address
+ * @param depthOffset transducer offset in metres if the sentence has none: positive to the waterline, negative to the keel
+ */
+export function parseInstrumentSentence(type: string, fields: string[], depthOffset = 0): InstrumentReading[] {
+    const readings: InstrumentReading[] = [];
+    const add = (id: string, value: number | null, decimals: number): void => {
+        if (value !== null) {
+            readings.push({ id, value: round(value, decimals) });
+        }
+    };
+
+    switch (type) {
+        case 'DBT': {
+            // $--DBT,feet,f,metres,M,fathoms,F
+            let depth = num(fields[3]);
+            if (depth === null && num(fields[1]) !== null) {
+                depth = num(fields[1])! * 0.3048;
+            }
+            if (depth !== null) {
+                add('depth_transducer', depth, 2);
+                add('depth', depth + depthOffset, 2);
+            }
+            break;
+        }
+        case 'DPT': {
+            // $--DPT,depth,offset,maxRange - depth in metres below the transducer
+            const depth = num(fields[1]);
+            const offset = num(fields[2]) || depthOffset;
+            if (depth !== null) {
+                add('depth_transducer', depth, 2);
+                add('transducer_offset', offset, 2);
+                add('depth', depth + offset, 2);
+            }
+            break;
+        }
+        case 'MWV': {
+            // $--MWV,angle,R|T,speed,unit,status - angle relative to the bow
+            const angle = num(fields[1]);
+            const speed = num(fields[3]);
+            if (fields[5] === 'V' || angle === null) {
+                break;
+            }
+            const prefix = fields[2] === 'T' ? 'wind_true' : 'wind_apparent';
+            add(`${prefix}_angle`, normalize(angle), 1);
+            add(`${prefix}_speed`, speed === null ? null : windKnots(speed, fields[4]), 1);
+            break;
+        }
+        case 'MWD': {
+            // $--MWD,directionTrue,T,directionMagnetic,M,speedKnots,N,speedMs,M
+            add('wind_true_direction', num(fields[1]), 1);
+            const knots = num(fields[5]);
+            const ms = num(fields[7]);
+            add('wind_true_speed', knots ?? (ms === null ? null : (ms * 3.6) / 1.852), 1);
+            break;
+        }
+        case 'VWR': {
+            // $--VWR,angle,L|R,speedKnots,N,speedMs,M,speedKmh,K - angle 0..180 to the left or right of the bow
+            const angle = num(fields[1]);
+            if (angle !== null) {
+                add('wind_apparent_angle', normalize(fields[2] === 'L' ? -angle : angle), 1);
+            }
+            const knots = num(fields[3]);
+            const ms = num(fields[5]);
+            add('wind_apparent_speed', knots ?? (ms === null ? null : (ms * 3.6) / 1.852), 1);
+            break;
+        }
+        case 'MTW':
+            // $--MTW,temperature,C
+            add('water_temperature', num(fields[1]), 1);
+            break;
+        case 'VHW': {
+            // $--VHW,headingTrue,T,headingMagnetic,M,speedKnots,N,speedKmh,K
+            add('heading_magnetic', num(fields[3]), 1);
+            const knots = num(fields[5]);
+            const kmh = num(fields[7]);
+            add('speed_through_water', knots ?? (kmh === null ? null : kmh / 1.852), 2);
+            break;
+        }
+        case 'HDG': {
+            // $--HDG,sensorHeading,deviation,E|W,variation,E|W
+            const heading = num(fields[1]);
+            const deviation = num(fields[2]);
+            const variation = num(fields[4]);
+            const signedDeviation = deviation === null ? null : fields[3] === 'W' ? -deviation : deviation;
+            const signedVariation = variation === null ? null : fields[5] === 'W' ? -variation : variation;
+            if (heading !== null) {
+                add('heading_magnetic', normalize(heading + (signedDeviation || 0)), 1);
+            }
+            add('magnetic_deviation', signedDeviation, 1);
+            add('magnetic_variation', signedVariation, 1);
+            break;
+        }
+        case 'HDM':
+            // $--HDM,heading,M
+            add('heading_magnetic', num(fields[1]), 1);
+            break;
+        case 'XDR':
+            // $--XDR,type,value,unit,name,type,value,unit,name,...
+            for (let i = 1; i + 2 < fields.length; i += 4) {
+                const transducerType = fields[i];
+                let value = num(fields[i + 1]);
+                const unit = fields[i + 2];
+                const name = (fields[i + 3] || '').trim() || `${transducerType}${(i - 1) / 4 + 1}`;
+                if (value === null || !transducerType) {
+                    continue;
+                }
+                if (unit === 'B') {
+                    // bar is shown as hPa like other weather data
+                    value *= 1000;
+                }
+                readings.push({
+                    id: `xdr_${name.replace(/[^a-zA-Z0-9_-]/g, '_')}`,
+                    value: round(value, 3),
+                    common: { name, role: XDR_ROLES[transducerType] || 'value', unit: XDR_UNITS[unit] },
+                });
+            }
+            break;
+    }
+    return readings;
+}
+
+/**
+ * True wind over ground from the apparent wind and the motion of the boat
+ *
+ * @param apparentAngle apparent wind angle relative to the bow in degrees
+ * @param apparentSpeed apparent wind speed in knots
+ * @param sog speed over ground in knots
+ * @param cog course over ground in degrees
+ * @param heading true heading in degrees, the course is used if unknown
+ */
+export function trueWind(
+    apparentAngle: number,
+    apparentSpeed: number,
+    sog: number,
+    cog: number,
+    heading: number = cog,
+): TrueWind {
+    const rad = Math.PI / 180;
+    // vectors to the east and north, the apparent wind blows from heading + angle
+    const apparentDirection = (heading + apparentAngle) * rad;
+    const x = -apparentSpeed * Math.sin(apparentDirection) + sog * Math.sin(cog * rad);
+    const y = -apparentSpeed * Math.cos(apparentDirection) + sog * Math.cos(cog * rad);
+    const speed = Math.sqrt(x * x + y * y);
+    const direction = speed ? normalize(Math.atan2(-x, -y) / rad) : 0;
+    return {
+        angle: round(normalize(direction - heading), 1),
+        speed: round(speed, 1),
+        direction: round(direction, 1),
+    };
+}
@@ -0,0 +1,140 @@
+/** Directory in the files of the instance */
+export const CAPTURE_DIR = 'captures';
+
+/** Prefix of lines with wrong checksum, so that the file can be used as test input without them */
+export const CHECKSUM_ERROR_MARK = '# checksum error: ';
+
+export interface NmeaCaptureOptions {
+    /** a new file is started when the current file would get bigger, in bytes */
+    maxFileSize: number;
+    /** maximal number of files, older files are deleted, 0 - unlimited */
+    maxFiles: number;
+}
+
+/** File name from the start time, e.g. 2025-12-07_18-25-53.nmea */
+export function captureFileName(ts: number): string {
+    const iso = new Date(ts).toISOString();
+    return `${iso.substring(0, 10)}_${iso.substring(11, 19).replace(/:/g, '-')}.nmea`;
+}
+
+/**
+ * Writes the received lines unchanged into size limited files in the files storage of the instance,
+ * so that the raw data of a problem can be analyzed or replayed.
+ * The current file is kept in memory and written on flush.
+ */
+export class NmeaCapture {
+    private file = '';
+    private lines: string[] = [];
+    private size = 0;
+    private dirty = false;
+
+    constructor(
+        private readonly adapter: ioBroker.Adapter,
+        private readonly options: NmeaCaptureOptions,
+    ) {}
+
+    /** Name of the current file, empty if nothing was captured yet */
+    get fileName(): string {
+        return this.file;
+    }
+
+    /** Size of the current file in bytes */
+    get fileSize(): number {
+        return this.size;
+    }
+
+    /**
+     * Add a received line
+     *
+     * @param line line without line end
+     * @param valid false if the checksum is wrong, the line is marked
+     */
+    async add(line: string, valid: boolean): Promise<void> {
+        const text = valid ? line : `${CHECKSUM_ERROR_MARK}${line}`;
+        const length = Buffer.byteLength(text) + 1;
+        if (!this.file || (this.lines.length && this.size + length > this.options.maxFileSize)) {
+            await this.startFile();
+        }
+        this.lines.push(text);
+        this.size += length;
+        this.dirty = true;
+    }
+
+    /** Write the current file if it has new lines */
+    async flush(): Promise<void> {
+        if (!this.dirty || !this.file) {
+            return;
+        }
+        this.dirty = false;
+        await this.adapter.writeFileAsync(this.adapter.namespace, `${CAPTURE_DIR}/${this.file}`, this.content());
+    }
+
+    /** Write and close the current file, the next line starts a new file */
+    async close(): Promise<void> {
+        await this.flush();
+        this.file = '';
+        this.lines = [];
+        this.size = 0;
+    }
+
+    /** List of capture files with size, oldest first */
+    async listFiles(): Promise<{ file: string; size: number }[]> {
+        let entries: ioBroker.ReadDirResult[];
+        try {
+            entries = await this.adapter.readDirAsync(this.adapter.namespace, CAPTURE_DIR);
+        } catch {
+            // directory does not exist yet
+            return [];
+        }
+        return entries
+            .filter(entry => !entry.isDir && entry.file.endsWith('.nmea'))
+            .map(entry => ({
+                file: entry.file,
+                size: entry.file === this.file ? this.size : entry.stats?.size || 0,
+            }))
+            .sort((a, b) => a.file.localeCompare(b.file));
+    }
+
+    /** Content of a capture file, the current file with the lines that are not written yet */
+    async readFile(file: string): Promise<string> {
+        if (!/^[\w-]+\.nmea$/.test(file)) {
+            throw new Error(`Invalid capture file: ${file}`);
+        }
+        if (file === this.file) {
+            return this.content();
+        }
+        const data = await this.adapter.readFileAsync(this.adapter.namespace, `${CAPTURE_DIR}/${file}`);
+        return data.file.toString();
+    }
+
+    /** Delete the oldest files if there are too many */
+    async applyRetention(): Promise<void> {
+        if (!this.options.maxFiles) {
+            return;
+        }
+        const files = (await this.listFiles()).filter(item => item.file !== this.file);
+        // the current file is not in the list, so keep one place for it
+        const tooMany = files.length - (this.options.maxFiles - 1);
+        for (let i = 0; i < tooMany; i++) {
+            this.adapter.log.info(`Delete capture file ${files[i].file}`);
+            try {
+                await this.adapter.delFileAsync(this.adapter.namespace, `${CAPTURE_DIR}/${files[i].file}`);
+            } catch (e) {
+                this.adapter.log.warn(`Cannot delete capture file ${files[i].file}: ${e.message || e}`);
+            }
+        }
+    }
+
+    private content(): string {
+        return this.lines.length ? `${this.lines.join('\n')}\n` : '';
+    }
+
+    private async startFile(): Promise<void> {
+        await this.flush();
+        this.file = captureFileName(Date.now());
+        this.lines = [];
+        this.size = 0;
+        this.adapter.log.info(`Start capture file ${this.file}`);
+        await this.applyRetention();
+    }
+}
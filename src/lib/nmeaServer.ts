@@ -0,0 +1,215 @@
+import { type Socket as UdpSocket, createSocket } from 'node:dgram';
+import { type Server, type Socket, createServer } from 'node:net';
+
+export interface NmeaServerOptions {
+    /** TCP port for clients, 0 - no TCP server */
+    tcpPort: number;
+    /** UDP port to send the sentences to, 0 - no UDP broadcast */
+    udpPort: number;
+    /** destination of the UDP datagrams, broadcast or unicast address */
+    udpAddress: string;
+    /** sentence types to forward like "GGA" or "GPRMC", empty - all */
+    sentences: string[];
+    /** maximal number of TCP clients, 0 - unlimited */
+    maxClients: number;
+    /** sentences from TCP clients are passed to the receiver */
+    allowWrite: boolean;
+}
+
+/** Longest line accepted from a client, longer input is dropped */
+const MAX_CLIENT_LINE = 1024;
+
+/**
+ * Parse a list of sentence types like "GGA, RMC; GPGSV"
+ */
+export function parseSentenceList(text: string | undefined): string[] {
+    return (text || '')
+        .split(/[,;\s]+/)
+        .map(type => type.trim().replace(/^[$!]/, '').toUpperCase())
+        .filter(type => type);
+}
+
+/**
+ * Check if the sentence type (with talker, e.g. "GNGGA") is in the list. Entries without talker ID match all talkers.
+ */
+export function isSentenceAllowed(list: string[], type: string): boolean {
+    if (!list.length) {
+        return true;
+    }
+    const upper = type.toUpperCase();
+    return list.some(entry => upper === entry || (entry.length === 3 && upper.endsWith(entry)));
+}
+
+/** Valid NMEA 0183 sentence with checksum, as accepted from clients */
+function isValidSentence(line: string): boolean {
+    const m = line.match(/^[$!]([^*]+)\*([0-9A-Fa-f]{2})$/);
+    if (!m) {
+        return false;
+    }
+    let chk = 0;
+    for (let i = 0; i < m[1].length; i++) {
+        chk ^= m[1].charCodeAt(i);
+    }
+    return chk === parseInt(m[2], 16);
+}
+
+/**
+ * Re-broadcasts the received sentences to TCP clients and/or as UDP datagrams,
+ * so that other programs like OpenCPN can use the same receiver.
+ */
+export class NmeaServer {
+    /** bytes sent to all TCP clients and UDP */
+    public bytesSent = 0;
+    /** bytes received from TCP clients */
+    public bytesReceived = 0;
+    private tcpServer?: Server;
+    private udpSocket?: UdpSocket;
+    private readonly sockets = new Set<Socket>();
+
+    /**
+     * @param adapter used for logging
+     * @param options server configuration
+     * @param onClientsChanged called with the number of connected TCP clients
+     * @param onClientSentence called for every valid sentence from a client if writing is allowed
+     */
+    constructor(
+        private readonly adapter: ioBroker.Adapter,
+        private readonly options: NmeaServerOptions,
+        private readonly onClientsChanged: (clients: number) => void,
+        private readonly onClientSentence: (sentence: string) => void,
+    ) {}
+
+    /** Number of connected TCP clients */
+    get clients(): number {
+        return this.sockets.size;
+    }
+
+    start(): void {
+        if (this.options.tcpPort) {
+            this.startTcp();
+        }
+        if (this.options.udpPort) {
+            this.startUdp();
+        }
+    }
+
+    async stop(): Promise<void> {
+        for (const socket of this.sockets) {
+            socket.destroy();
+        }
+        this.sockets.clear();
+        if (this.udpSocket) {
+            const socket = this.udpSocket;
+            this.udpSocket = undefined;
+            await new Promise<void>(resolve => {
+                try {
+                    socket.close(() => resolve());
+                } catch {
+                    resolve();
+                }
+            });
+        }
+        if (this.tcpServer) {
+            const server = this.tcpServer;
+            this.tcpServer = undefined;
+            await new Promise<void>(resolve => server.close(() => resolve()));
+        }
+    }
+
+    /**
+     * Send a sentence to all clients if its type is allowed
+     *
+     * @param sentence complete sentence with "$" and checksum, without line end
+     * @param type sentence type with talker ID, e.g. "GPGGA"
+     */
+    forward(sentence: string, type: string): void {
+        if (!isSentenceAllowed(this.options.sentences, type)) {
+            return;
+        }
+        const data = Buffer.from(`${sentence}\r\n`, 'ascii');
+        for (const socket of this.sockets) {
+            // slow clients must not block the others, so drop sentences until their buffer is empty
+            if (socket.writable && !socket.writableNeedDrain) {
+                socket.write(data);
+                this.bytesSent += data.length;
+            }
+        }
+        if (this.udpSocket) {
+            this.udpSocket.send(data, this.options.udpPort, this.options.udpAddress, err => {
+                if (err) {
+                    this.adapter.log.debug(`Cannot send UDP datagram: ${err.message || err}`);
+                }
+            });
+            this.bytesSent += data.length;
+        }
+    }
+
+    private startTcp(): void {
+        const server = createServer(socket => this.onConnection(socket));
+        server.on('error', (err: Error) =>
+            this.adapter.log.error(`NMEA server error on TCP port ${this.options.tcpPort}: ${err.message || err}`),
+        );
+        server.listen(this.options.tcpPort, () =>
+            this.adapter.log.info(`NMEA server listening on TCP port ${this.options.tcpPort}`),
+        );
+        this.tcpServer = server;
+    }
+
+    private startUdp(): void {
+        const socket = createSocket('udp4');
+        socket.on('error', (err: Error) => this.adapter.log.error(`NMEA UDP broadcast error: ${err.message || err}`));
+        socket.bind(() => {
+            socket.setBroadcast(true);
+            this.adapter.log.info(
+                `NMEA sentences are sent via UDP to ${this.options.udpAddress}:${this.options.udpPort}`,
+            );
+        });
+        this.udpSocket = socket;
+    }
+
+    private onConnection(socket: Socket): void {
+        const address = `${socket.remoteAddress}:${socket.remotePort}`;
+        if (this.options.maxClients && this.sockets.size >= this.options.maxClients) {
+            this.adapter.log.warn(`NMEA client ${address} rejected: maximal ${this.options.maxClients} clients`);
+            socket.destroy();
+            return;
+        }
+        this.adapter.log.info(`NMEA client connected: ${address}`);
+        socket.setKeepAlive(true, 10000);
+        this.sockets.add(socket);
+        this.onClientsChanged(this.sockets.size);
+
+        let buffer = '';
+        socket.on('data', (data: Buffer): void => {
+            this.bytesReceived += data.length;
+            if (!this.options.allowWrite) {
+                return;
+            }
+            buffer += data.toString('ascii');
+            const lines = buffer.split(/\r?\n/);
+            buffer = lines.pop() || '';
+            if (buffer.length > MAX_CLIENT_LINE) {
+                buffer = '';
+            }
+            for (const line of lines.map(line => line.trim())) {
+                if (!line) {
+                    continue;
+                }
+                if (isValidSentence(line)) {
+                    this.onClientSentence(line);
+                } else {
+                    this.adapter.log.debug(`Invalid sentence from NMEA client ${address} ignored: ${line}`);
+                }
+            }
+        });
+
+        socket.on('error', (err: Error) => this.adapter.log.debug(`NMEA client ${address}: ${err.message || err}`));
+
+        socket.on('close', () => {
+            if (this.sockets.delete(socket)) {
+                this.adapter.log.info(`NMEA client disconnected: ${address}`);
+                this.onClientsChanged(this.sockets.size);
+            }
+        });
+    }
+}
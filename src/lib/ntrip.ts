@@ -0,0 +1,297 @@
+import { type Socket, createConnection } from 'node:net';
+import { nmeaCommand } from './receiver';
+import { formatCoordinate, formatTime } from './replay';
+
+export const NTRIP_DEFAULT_PORT = 2101;
+
+export interface NtripOptions {
+    /** host name or IP address of the caster */
+    host: string;
+    port: number;
+    mountpoint: string;
+    /** empty - no authentication */
+    username: string;
+    password: string;
+    /** 1 - NTRIP 1.0 (ICY response), 2 - NTRIP 2.0 (HTTP/1.1, chunked) */
+    version: 1 | 2;
+}
+
+// Reconnect delay in ms after the connection was lost
+const RECONNECT_DELAY = 10000;
+// Reconnect delay in ms after the caster rejected the request, e.g. wrong password
+const REJECTED_RECONNECT_DELAY = 60000;
+// Without correction data for this time in ms the connection is closed and opened again
+const DATA_TIMEOUT = 60000;
+// Longest response header, more without end of header is not a caster
+const MAX_HEADER = 8192;
+
+/** HTTP request for the mountpoint */
+export function ntripRequest(options: NtripOptions): string {
+    const lines = [
+        `GET /${options.mountpoint.replace(/^\//, '')} HTTP/1.${options.version === 2 ? 1 : 0}`,
+        'User-Agent: NTRIP ioBroker.serial-gps',
+    ];
+    if (options.version === 2) {
+        lines.push(`Host: ${options.host}:${options.port}`, 'Ntrip-Version: Ntrip/2.0', 'Connection: close');
+    }
+    if (options.username) {
+        const credentials = Buffer.from(`${options.username}:${options.password}`).toString('base64');
+        lines.push(`Authorization: Basic ${credentials}`);
+    }
+    return `${lines.join('\r\n')}\r\n\r\n`;
+}
+
+/**
+ * GGA sentence with the current position, sent to the caster for VRS mountpoints
+ *
+ * @param ts UTC time of the fix
+ * @param quality fix quality, at least 1 is sent because casters ignore positions without fix
+ * @param satellites number of used satellites, undefined if unknown
+ * @param altitude altitude above mean sea level in metres
+ */
+export function ggaSentence(
+    ts: number,
+    lat: number,
+    lon: number,
+    quality: number,
+    satellites?: number,
+    hdop?: number,
+    altitude?: number,
+): Buffer {
+    const [latText, ns] = formatCoordinate(lat, true);
+    const [lonText, ew] = formatCoordinate(lon, false);
+    const sats = satellites === undefined ? '' : satellites.toString().padStart(2, '0');
+    const alt = altitude === undefined ? '' : altitude.toFixed(1);
+    return nmeaCommand(
+        `GPGGA,${formatTime(new Date(ts), 2)},${latText},${ns},${lonText},${ew},${Math.max(quality, 1)},${sats},${hdop || ''},${alt},M,,M,,`,
+    );
+}
+
+/** Response of the caster, the error or the correction data after the header */
+export type NtripResponse = { error: string } | { body: Buffer; chunked: boolean };
+
+/**
+ * Parse the response header of the caster
+ *
+ * @param header received data as latin1, which keeps the byte offsets of the binary data after the header
+ * @returns null if the header is not complete yet
+ */
+export function parseNtripResponse(header: string): NtripResponse | null {
+    const statusEnd = header.indexOf('\r\n');
+    if (statusEnd === -1) {
+        return header.length > MAX_HEADER ? { error: 'invalid response' } : null;
+    }
+    const status = header.substring(0, statusEnd);
+    let bodyStart: number;
+    let chunked = false;
+    if (/^ICY 200/.test(status)) {
+        // NTRIP 1.0 without header fields
+        bodyStart = statusEnd + 2;
+    } else if (/^HTTP\/1\.[01] 200/.test(status)) {
+        const headerEnd = header.indexOf('\r\n\r\n');
+        if (headerEnd === -1) {
+            return header.length > MAX_HEADER ? { error: 'invalid response' } : null;
+        }
+        const fields = header.substring(0, headerEnd).toLowerCase();
+        if (fields.includes('content-type: gnss/sourcetable')) {
+            return { error: 'mountpoint not found' };
+        }
+        chunked = /transfer-encoding: *chunked/.test(fields);
+        bodyStart = headerEnd + 4;
+    } else if (/^SOURCETABLE 200/.test(status)) {
+        return { error: 'mountpoint not found' };
+    } else {
+        return { error: status };
+    }
+    return { body: Buffer.from(header.substring(bodyStart), 'latin1'), chunked };
+}
+
+/** Removes the chunk sizes of "Transfer-Encoding: chunked" */
+export class ChunkedDecoder {
+    private buffer = Buffer.alloc(0);
+    /** bytes of the current chunk that were not received yet */
+    private remaining = 0;
+    /** bytes of the CRLF after the chunk that were not received yet */
+    private skip = 0;
+    /** the last chunk was received, only the trailer follows */
+    private done = false;
+
+    push(data: Buffer): Buffer {
+        if (this.done) {
+            return Buffer.alloc(0);
+        }
+        this.buffer = Buffer.concat([this.buffer, data]);
+        const output: Buffer[] = [];
+        while (this.buffer.length) {
+            if (this.remaining) {
+                const length = Math.min(this.remaining, this.buffer.length);
+                output.push(this.buffer.subarray(0, length));
+                this.buffer = this.buffer.subarray(length);
+                this.remaining -= length;
+                if (!this.remaining) {
+                    this.skip = 2;
+                }
+            } else if (this.skip) {
+                const length = Math.min(this.skip, this.buffer.length);
+                this.buffer = this.buffer.subarray(length);
+                this.skip -= length;
+            } else {
+                const end = this.buffer.indexOf('\r\n');
+                if (end === -1) {
+                    break;
+                }
+                // chunk extensions after ";" are ignored
+                const size = parseInt(this.buffer.subarray(0, end).toString('ascii'), 16);
+                this.buffer = this.buffer.subarray(end + 2);
+                if (size === 0) {
+                    this.done = true;
+                    this.buffer = Buffer.alloc(0);
+                    break;
+                }
+                this.remaining = size || 0;
+            }
+        }
+        return Buffer.concat(output);
+    }
+}
+
+/**
+ * Client for an NTRIP caster: receives RTCM corrections for the receiver and reconnects if the connection is lost.
+ */
+export class NtripClient {
+    /** bytes of correction data since start */
+    public bytesReceived = 0;
+    /** time when the last correction data was received, 0 - never */
+    public lastDataTime = 0;
+    private socket?: Socket;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private stopped = true;
+    private connected = false;
+    private header = '';
+    private chunked?: ChunkedDecoder;
+
+    /**
+     * @param adapter used for logging
+     * @param options caster and mountpoint
+     * @param onData called with the correction data
+     * @param onConnected called when the caster accepted the request or the connection was lost
+     */
+    constructor(
+        private readonly adapter: ioBroker.Adapter,
+        private readonly options: NtripOptions,
+        private readonly onData: (data: Buffer) => void,
+        private readonly onConnected: (connected: boolean) => void,
+    ) {}
+
+    get isConnected(): boolean {
+        return this.connected;
+    }
+
+    start(): void {
+        this.stopped = false;
+        this.connect();
+    }
+
+    stop(): void {
+        this.stopped = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.socket?.destroy();
+        this.socket = undefined;
+    }
+
+    /** Send the position to the caster, only possible while connected */
+    sendGga(sentence: Buffer): boolean {
+        if (!this.connected || !this.socket) {
+            return false;
+        }
+        this.socket.write(sentence);
+        return true;
+    }
+
+    private connect(): void {
+        const { host, port, mountpoint } = this.options;
+        this.adapter.log.info(`Connecting to NTRIP caster ${host}:${port}/${mountpoint}`);
+        this.header = '';
+        this.chunked = undefined;
+        const socket = createConnection({ host, port });
+        this.socket = socket;
+        let delay = RECONNECT_DELAY;
+
+        socket.setTimeout(DATA_TIMEOUT);
+        socket.on('connect', () => socket.write(ntripRequest(this.options)));
+        socket.on('data', (data: Buffer) => {
+            if (this.connected) {
+                this.receive(data);
+                return;
+            }
+            const error = this.readHeader(data);
+            if (error) {
+                this.adapter.log.error(`NTRIP caster rejected mountpoint "${mountpoint}": ${error}`);
+                delay = REJECTED_RECONNECT_DELAY;
+                socket.destroy();
+            }
+        });
+        socket.on('timeout', () => {
+            this.adapter.log.warn('No data from NTRIP caster, reconnecting');
+            socket.destroy();
+        });
+        socket.on('error', e => this.adapter.log.warn(`NTRIP connection error: ${e.message}`));
+        socket.on('close', () => {
+            if (this.socket !== socket) {
+                return;
+            }
+            this.socket = undefined;
+            if (this.connected) {
+                this.connected = false;
+                this.onConnected(false);
+            }
+            if (!this.stopped) {
+                this.reconnectTimer = setTimeout(() => {
+                    this.reconnectTimer = null;
+                    this.connect();
+                }, delay);
+            }
+        });
+    }
+
+    /**
+     * Collect the response header and pass the data after it
+     *
+     * @returns the error if the caster did not accept the request
+     */
+    private readHeader(data: Buffer): string | null {
+        this.header += data.toString('latin1');
+        const response = parseNtripResponse(this.header);
+        if (!response) {
+            return null;
+        }
+        if ('error' in response) {
+            return response.error;
+        }
+
+        this.connected = true;
+        this.adapter.log.info(`Connected to NTRIP caster, mountpoint "${this.options.mountpoint}"`);
+        this.onConnected(true);
+        this.header = '';
+        if (response.chunked) {
+            this.chunked = new ChunkedDecoder();
+        }
+        if (response.body.length) {
+            this.receive(response.body);
+        }
+        return null;
+    }
+
+    private receive(data: Buffer): void {
+        const corrections = this.chunked ? this.chunked.push(data) : data;
+        if (!corrections.length) {
+            return;
+        }
+        this.bytesReceived += corrections.length;
+        this.lastDataTime = Date.now();
+        this.onData(corrections);
+    }
+}
@@ -0,0 +1,157 @@
+import { distance } from './geo';
+
+export type PositionFilterMode = 'kalman' | 'ema';
+
+export interface PositionFilterOptions {
+    mode: PositionFilterMode;
+    /** below this speed in km/h the position is held */
+    stationarySpeed: number;
+    /** a jump that implies a higher speed in km/h is rejected as outlier */
+    maxSpeed: number;
+}
+
+export interface PositionFilterFix {
+    /** epoch ms */
+    ts: number;
+    lat: number;
+    lon: number;
+    /** 0 if unknown */
+    hdop: number;
+    /** km/h */
+    speed: number;
+}
+
+export interface PositionFilterResult {
+    lat: number;
+    lon: number;
+    moving: boolean;
+}
+
+// User equivalent range error in metres, multiplied with HDOP gives the expected position error
+const UERE = 5;
+// Minimal process noise of the Kalman filter in m/s, the position can change this fast even when standing
+const MIN_PROCESS_NOISE = 1;
+// Time constant of the exponential smoothing in ms for HDOP 1
+const EMA_TIME_CONSTANT = 2000;
+// The speed must stay below the threshold this long before the position is held
+const STATIONARY_DELAY = 3000;
+// The held position is released if the filtered position moves further away in metres, e.g. without speed information
+const HOLD_RELEASE_DISTANCE = 25;
+// After so many outliers in a row the new position is accepted, the receiver has really jumped
+const MAX_OUTLIERS = 3;
+// Without fixes for this time the filter starts anew
+const MAX_GAP = 60000;
+
+/**
+ * Smooths the positions with a Kalman filter or exponential moving average weighted by HDOP,
+ * holds the position while standing and rejects outliers.
+ */
+export class PositionFilter {
+    private lat = 0;
+    private lon = 0;
+    /** variance of the Kalman estimate in m², negative if not initialized */
+    private variance = -1;
+    private lastTs = 0;
+    /** last accepted measurement, used for the outlier detection */
+    private lastRaw: PositionFilterFix | null = null;
+    private outliers = 0;
+    private stillSince = 0;
+    private hold: { lat: number; lon: number } | null = null;
+    private lastResult: PositionFilterResult | null = null;
+
+    constructor(private readonly options: PositionFilterOptions) {}
+
+    /**
+     * Feed a valid fix into the filter
+     *
+     * @returns filtered position or null if the fix was rejected as outlier
+     */
+    update(fix: PositionFilterFix): PositionFilterResult | null {
+        // GGA and RMC of the same epoch deliver the same position
+        if (this.lastResult && fix.ts <= this.lastTs) {
+            return this.lastResult;
+        }
+        if (this.variance < 0 || fix.ts - this.lastTs > MAX_GAP) {
+            this.reset(fix);
+        } else if (this.isOutlier(fix)) {
+            return null;
+        } else {
+            this.outliers = 0;
+            this.smooth(fix);
+        }
+        this.lastTs = fix.ts;
+        this.lastRaw = fix;
+
+        if (fix.speed >= this.options.stationarySpeed) {
+            this.stillSince = 0;
+            this.hold = null;
+        } else {
+            this.stillSince ||= fix.ts;
+            if (this.hold && distance(this.hold.lat, this.hold.lon, this.lat, this.lon) > HOLD_RELEASE_DISTANCE) {
+                this.hold = null;
+                this.stillSince = fix.ts;
+            } else if (!this.hold && fix.ts - this.stillSince >= STATIONARY_DELAY) {
+                this.hold = { lat: this.lat, lon: this.lon };
+            }
+        }
+
+        this.lastResult = {
+            lat: PositionFilter.round(this.hold ? this.hold.lat : this.lat),
+            lon: PositionFilter.round(this.hold ? this.hold.lon : this.lon),
+            moving: !this.hold,
+        };
+        return this.lastResult;
+    }
+
+    private reset(fix: PositionFilterFix): void {
+        this.lat = fix.lat;
+        this.lon = fix.lon;
+        this.variance = PositionFilter.accuracy(fix.hdop) ** 2;
+        this.outliers = 0;
+        this.stillSince = 0;
+        this.hold = null;
+    }
+
+    private isOutlier(fix: PositionFilterFix): boolean {
+        const last = this.lastRaw!;
+        const speed = (distance(last.lat, last.lon, fix.lat, fix.lon) / (fix.ts - last.ts)) * 3600;
+        if (speed <= this.options.maxSpeed) {
+            return false;
+        }
+        this.outliers++;
+        if (this.outliers >= MAX_OUTLIERS) {
+            // the position really changed, e.g. after the receiver was moved while switched off
+            this.reset(fix);
+            return false;
+        }
+        return true;
+    }
+
+    private smooth(fix: PositionFilterFix): void {
+        const dt = fix.ts - this.lastTs;
+        const accuracy = PositionFilter.accuracy(fix.hdop);
+        let gain: number;
+        if (this.options.mode === 'ema') {
+            gain = 1 - Math.exp(-dt / (EMA_TIME_CONSTANT * (accuracy / UERE)));
+        } else {
+            // the position may change with the current speed, so the estimate gets less certain over time
+            const q = Math.max(MIN_PROCESS_NOISE, fix.speed / 3.6);
+            this.variance += (dt / 1000) * q * q;
+            gain = this.variance / (this.variance + accuracy * accuracy);
+            this.variance *= 1 - gain;
+        }
+        // the same gain for both axes, as HDOP describes the horizontal error
+        this.lat += gain * (fix.lat - this.lat);
+        this.lon += gain * (fix.lon - this.lon);
+    }
+
+    /** Expected position error in metres */
+    private static accuracy(hdop: number): number {
+        return Math.max(1, hdop || 1) * UERE;
+    }
+
+    /** 7 decimals are about 1 cm */
+    private static round(value: number): number {
+        return Math.round(value * 1e7) / 1e7;
+    }
+}
@@ -0,0 +1,112 @@
+import { distance } from './geo';
+
+export type PublishGroup = 'position' | 'speed' | 'course' | 'altitude' | 'default';
+
+export interface PublishRule {
+    /** ms, changes within this time after the last write are skipped */
+    minInterval: number;
+    /** smallest change that is written: metres, km/h or degrees. 0 - every change */
+    deadband: number;
+    /** ms, an unchanged value is written again after this time. 0 - never */
+    refresh: number;
+}
+
+/** Last written value of a state */
+export interface WrittenState {
+    val: ioBroker.StateValue;
+    ts: number;
+}
+
+// Rule of groups without configuration: every change and unchanged values once per minute
+const DEFAULT_RULE: PublishRule = { minInterval: 0, deadband: 0, refresh: 60000 };
+
+// Groups of the states with measured values, all other states are in the group "default"
+const STATE_GROUPS: Record<string, PublishGroup> = {
+    'gps.latitude': 'position',
+    'gps.longitude': 'position',
+    'gps.position': 'position',
+    'gps.latlon': 'position',
+    'gps.speed_kmh': 'speed',
+    'gps.speed_knots': 'speed',
+    'gps.course': 'course',
+    'gps.course_magnetic': 'course',
+    'gps.heading_true': 'course',
+    'gps.altitude': 'altitude',
+    'gps.altitude_ellipsoid': 'altitude',
+};
+
+export function publishGroup(id: string): PublishGroup {
+    return STATE_GROUPS[id] || 'default';
+}
+
+/**
+ * Decides which values are written to the states, so that receivers with high update rates do not flood the states DB
+ */
+export class PublishPolicy {
+    /**
+     * @param rules rules of the groups, missing groups write every change and refresh unchanged values after 60s
+     */
+    constructor(private readonly rules: Partial<Record<PublishGroup, PublishRule>> = {}) {}
+
+    private rule(group: PublishGroup): PublishRule {
+        return this.rules[group] || DEFAULT_RULE;
+    }
+
+    /**
+     * @param id state ID without namespace
+     * @param prev last written value, undefined if never written
+     */
+    shouldWrite(id: string, value: ioBroker.StateValue, prev: WrittenState | undefined, now: number): boolean {
+        if (!prev) {
+            return true;
+        }
+        const group = publishGroup(id);
+        const rule = this.rule(group);
+        const age = now - prev.ts;
+        if (rule.refresh && age >= rule.refresh) {
+            return true;
+        }
+        if (age < rule.minInterval) {
+            return false;
+        }
+        if (typeof value !== 'number' || typeof prev.val !== 'number' || !rule.deadband) {
+            return value !== prev.val;
+        }
+        let change = Math.abs(value - prev.val);
+        if (group === 'course') {
+            // 359° and 1° are 2° apart
+            change = Math.min(change, 360 - change);
+        } else if (id === 'gps.speed_knots') {
+            change *= 1.852;
+        }
+        return change >= rule.deadband;
+    }
+
+    /**
+     * Latitude, longitude and the combined position states are decided together by the distance
+     *
+     * @param prev last written position, null if never written
+     */
+    shouldWritePosition(
+        lat: number,
+        lon: number,
+        prev: { lat: number; lon: number; ts: number } | null,
+        now: number,
+    ): boolean {
+        if (!prev) {
+            return true;
+        }
+        const rule = this.rule('position');
+        const age = now - prev.ts;
+        if (rule.refresh && age >= rule.refresh) {
+            return true;
+        }
+        if (age < rule.minInterval) {
+            return false;
+        }
+        if (!rule.deadband) {
+            return lat !== prev.lat || lon !== prev.lon;
+        }
+        return distance(prev.lat, prev.lon, lat, lon) >= rule.deadband;
+    }
+}
@@ -0,0 +1,292 @@
+import { type ReceivedFrame, UBX_ACK_ACK, UBX_ACK_NAK, buildUbx } from './ubx';
+
+export type ReceiverType = 'mtk' | 'ublox' | 'sirf';
+
+export const RECEIVER_TYPES: ReceiverType[] = ['mtk', 'ublox', 'sirf'];
+
+export type RestartMode = 'hot' | 'warm' | 'cold';
+
+/** Sentences that can be switched on and off on all supported receivers */
+export const CONFIGURABLE_SENTENCES = ['GGA', 'GLL', 'GSA', 'GSV', 'RMC', 'VTG', 'ZDA'];
+
+export interface ReceiverCommand {
+    /** readable form for logs and results */
+    name: string;
+    data: Buffer;
+    /** decides if a received frame acknowledges (true) or rejects (false) the command, null - frame not related */
+    ack?: (frame: ReceivedFrame) => boolean | null;
+}
+
+export interface CommandResult {
+    command: string;
+    /** "sent" if the receiver does not acknowledge this command */
+    result: 'ack' | 'nak' | 'timeout' | 'sent';
+}
+
+// Time to wait for the acknowledgement of a command
+const ACK_TIMEOUT = 2000;
+
+const UBX_CFG_MSG = 0x0601;
+const UBX_CFG_RST = 0x0604;
+const UBX_CFG_RATE = 0x0608;
+
+// Message IDs of the standard NMEA sentences in UBX-CFG-MSG (class 0xF0) and PSRF103
+const NMEA_MESSAGE_IDS: Record<string, number> = { GGA: 0, GLL: 1, GSA: 2, GSV: 3, RMC: 4, VTG: 5, ZDA: 8 };
+
+// Positions of the sentences in PMTK314
+const PMTK314_FIELDS: Record<string, number> = { GLL: 0, RMC: 1, VTG: 2, GGA: 3, GSA: 4, GSV: 5, ZDA: 17 };
+
+/** NMEA sentence, e.g. a proprietary command, with checksum and line end */
+export function nmeaCommand(body: string): Buffer {
+    let chk = 0;
+    for (let i = 0; i < body.length; i++) {
+        chk ^= body.charCodeAt(i);
+    }
+    return Buffer.from(`$${body}*${chk.toString(16).toUpperCase().padStart(2, '0')}\r\n`, 'ascii');
+}
+
+/** $PMTK001,cmd,flag - flag 3 means success */
+function mtkAck(command: number): ReceiverCommand['ack'] {
+    return frame => {
+        const m = frame.type === 'nmea' ? frame.line.match(/^\$PMTK001,(\d+),(\d)/) : null;
+        if (!m || parseInt(m[1], 10) !== command) {
+            return null;
+        }
+        return m[2] === '3';
+    };
+}
+
+/** UBX-ACK-ACK or UBX-ACK-NAK with the class and ID of the command */
+function ubxAck(id: number): ReceiverCommand['ack'] {
+    return frame => {
+        if (
+            frame.type !== 'ubx' ||
+            (frame.id !== UBX_ACK_ACK && frame.id !== UBX_ACK_NAK) ||
+            frame.payload.length < 2
+        ) {
+            return null;
+        }
+        if (((frame.payload[0] << 8) | frame.payload[1]) !== id) {
+            return null;
+        }
+        return frame.id === UBX_ACK_ACK;
+    };
+}
+
+function ubxCommand(name: string, id: number, payload: Buffer, ack = true): ReceiverCommand {
+    return { name, data: buildUbx(id, payload), ack: ack ? ubxAck(id) : undefined };
+}
+
+/**
+ * Commands to set the navigation update rate
+ *
+ * @param type receiver type
+ * @param rate fixes per second, e.g. 1, 5 or 10
+ */
+export function updateRateCommands(type: ReceiverType, rate: number): ReceiverCommand[] {
+    if (!(rate > 0 && rate <= 50)) {
+        throw new Error(`Invalid update rate: ${rate}`);
+    }
+    const interval = Math.round(1000 / rate);
+    switch (type) {
+        case 'mtk':
+            return [{ name: `PMTK220,${interval}`, data: nmeaCommand(`PMTK220,${interval}`), ack: mtkAck(220) }];
+        case 'ublox': {
+            // measurement rate in ms, one navigation solution per measurement, aligned to GPS time
+            const payload = Buffer.alloc(6);
+            payload.writeUInt16LE(interval, 0);
+            payload.writeUInt16LE(1, 2);
+            payload.writeUInt16LE(1, 4);
+            return [ubxCommand(`UBX-CFG-RATE ${interval} ms`, UBX_CFG_RATE, payload)];
+        }
+        default:
+            if (rate !== 1) {
+                throw new Error('SiRF receivers support only 1 Hz in NMEA mode');
+            }
+            return [];
+    }
+}
+
+/**
+ * Commands to enable exactly the given NMEA sentences
+ *
+ * @param type receiver type
+ * @param sentences sentence types like "GGA", the others of CONFIGURABLE_SENTENCES are disabled
+ */
+export function sentenceCommands(type: ReceiverType, sentences: string[]): ReceiverCommand[] {
+    const enabled = sentences.map(item => item.trim().toUpperCase()).filter(item => item);
+    const unknown = enabled.filter(item => !CONFIGURABLE_SENTENCES.includes(item));
+    if (unknown.length) {
+        throw new Error(
+            `Sentences cannot be configured: ${unknown.join(', ')}. Supported: ${CONFIGURABLE_SENTENCES.join(', ')}`,
+        );
+    }
+    switch (type) {
+        case 'mtk': {
+            const fields = new Array(19).fill(0);
+            for (const sentence of enabled) {
+                fields[PMTK314_FIELDS[sentence]] = 1;
+            }
+            const body = `PMTK314,${fields.join(',')}`;
+            return [{ name: body, data: nmeaCommand(body), ack: mtkAck(314) }];
+        }
+        case 'ublox':
+            // UBX-CFG-MSG with 3 bytes sets the rate on the port the command was received on
+            return CONFIGURABLE_SENTENCES.map(sentence => {
+                const on = enabled.includes(sentence) ? 1 : 0;
+                return ubxCommand(
+                    `UBX-CFG-MSG ${sentence} ${on ? 'on' : 'off'}`,
+                    UBX_CFG_MSG,
+                    Buffer.from([0xf0, NMEA_MESSAGE_IDS[sentence], on]),
+                );
+            });
+        default:
+            return CONFIGURABLE_SENTENCES.map(sentence => {
+                const body = `PSRF103,${NMEA_MESSAGE_IDS[sentence].toString().padStart(2, '0')},00,${enabled.includes(sentence) ? '01' : '00'},01`;
+                return { name: body, data: nmeaCommand(body) };
+            });
+    }
+}
+
+/** Commands to change the baud rate of the serial port of the receiver. They are not acknowledged. */
+export function baudRateCommands(type: ReceiverType, baudRate: number): ReceiverCommand[] {
+    if (![4800, 9600, 19200, 38400, 57600, 115200].includes(baudRate)) {
+        throw new Error(`Invalid baud rate: ${baudRate}`);
+    }
+    let body: string;
+    switch (type) {
+        case 'mtk':
+            body = `PMTK251,${baudRate}`;
+            break;
+        case 'ublox':
+            // UART1, input UBX+NMEA+RTCM3 (for the NTRIP corrections), output UBX+NMEA
+            body = `PUBX,41,1,0023,0003,${baudRate},0`;
+            break;
+        default:
+            body = `PSRF100,1,${baudRate},8,1,0`;
+            break;
+    }
+    return [{ name: body, data: nmeaCommand(body) }];
+}
+
+/** Commands for hot, warm or cold restart. The receiver restarts immediately, so there is no acknowledgement. */
+export function restartCommands(type: ReceiverType, mode: RestartMode): ReceiverCommand[] {
+    if (!['hot', 'warm', 'cold'].includes(mode)) {
+        throw new Error(`Invalid restart mode: ${mode}`);
+    }
+    switch (type) {
+        case 'mtk': {
+            const body = mode === 'hot' ? 'PMTK101' : mode === 'warm' ? 'PMTK102' : 'PMTK103';
+            return [{ name: body, data: nmeaCommand(body) }];
+        }
+        case 'ublox': {
+            // battery backed RAM to clear, controlled software reset of GNSS only
+            const payload = Buffer.alloc(4);
+            payload.writeUInt16LE(mode === 'hot' ? 0x0000 : mode === 'warm' ? 0x0001 : 0xffff, 0);
+            payload[2] = 0x02;
+            return [ubxCommand(`UBX-CFG-RST ${mode}`, UBX_CFG_RST, payload, false)];
+        }
+        default: {
+            const body = `PSRF101,0,0,0,0,0,0,12,${mode === 'hot' ? 1 : mode === 'warm' ? 2 : 4}`;
+            return [{ name: body, data: nmeaCommand(body) }];
+        }
+    }
+}
+
+/** Recognize the receiver by its banner or proprietary sentences */
+export function detectReceiverType(frame: ReceivedFrame): ReceiverType | null {
+    if (frame.type === 'ubx') {
+        return 'ublox';
+    }
+    const line = frame.line;
+    if (line.startsWith('$PMTK')) {
+        return 'mtk';
+    }
+    if (line.startsWith('$PUBX') || (line.includes('TXT,') && /u-blox/i.test(line))) {
+        return 'ublox';
+    }
+    if (line.startsWith('$PSRF') || (line.includes('TXT,') && /sirf/i.test(line))) {
+        return 'sirf';
+    }
+    return null;
+}
+
+/**
+ * Sends configuration commands to the receiver one after another and waits for their acknowledgements
+ */
+export class ReceiverControl {
+    private pending: {
+        ack: NonNullable<ReceiverCommand['ack']>;
+        resolve: (result: CommandResult['result']) => void;
+    } | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * @param write sends data to the receiver, returns false if it is not connected
+     * @param type configured receiver type, null - detect from the received data
+     */
+    constructor(
+        private readonly write: (data: Buffer) => boolean,
+        public type: ReceiverType | null,
+    ) {}
+
+    /**
+     * Check a received frame for acknowledgements and the receiver type
+     *
+     * @returns the receiver type if it was detected with this frame
+     */
+    handleFrame(frame: ReceivedFrame): ReceiverType | null {
+        if (this.pending) {
+            const result = this.pending.ack(frame);
+            if (result !== null) {
+                this.pending.resolve(result ? 'ack' : 'nak');
+            }
+        }
+        if (this.type) {
+            return null;
+        }
+        this.type = detectReceiverType(frame);
+        return this.type;
+    }
+
+    /** Send the commands and wait for the acknowledgement of each */
+    send(commands: ReceiverCommand[]): Promise<CommandResult[]> {
+        // commands from states and messages must not interleave
+        const result = this.queue.then(() => this.sendAll(commands));
+        this.queue = result.catch(() => {});
+        return result;
+    }
+
+    private async sendAll(commands: ReceiverCommand[]): Promise<CommandResult[]> {
+        const results: CommandResult[] = [];
+        for (const command of commands) {
+            results.push({ command: command.name, result: await this.sendOne(command) });
+        }
+        return results;
+    }
+
+    private sendOne(command: ReceiverCommand): Promise<CommandResult['result']> {
+        if (!command.ack) {
+            if (!this.write(command.data)) {
+                return Promise.reject(new Error('Receiver is not connected'));
+            }
+            return Promise.resolve('sent');
+        }
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => this.pending?.resolve('timeout'), ACK_TIMEOUT);
+            this.pending = {
+                ack: command.ack!,
+                resolve: result => {
+                    clearTimeout(timer);
+                    this.pending = null;
+                    resolve(result);
+                },
+            };
+            if (!this.write(command.data)) {
+                clearTimeout(timer);
+                this.pending = null;
+                reject(new Error('Receiver is not connected'));
+            }
+        });
+    }
+}
@@ -0,0 +1,376 @@
+import { bearing, distance } from './geo';
+import { nmeaCommand } from './receiver';
+import type { Track } from './track';
+
+/** Sentences sent at the same time, e.g. all sentences of one epoch */
+export interface ReplayFrame {
+    /** ms from the start of the recording */
+    offset: number;
+    /** sentences with "$" or "!" and checksum, without line end */
+    lines: string[];
+}
+
+export interface ReplayOptions {
+    /** 1 - original speed, 2 - twice as fast */
+    speed: number;
+    /** start again at the end */
+    loop: boolean;
+}
+
+// Pauses in the recording are shortened to this time in ms, e.g. while the receiver was switched off
+const MAX_PAUSE = 10000;
+// Time between the epochs if the log has no times
+const DEFAULT_INTERVAL = 1000;
+
+// Index of the UTC time field (hhmmss.ss) in the sentences that have one
+const TIME_FIELDS: Record<string, number> = { GGA: 1, GNS: 1, RMC: 1, ZDA: 1, GST: 1, GLL: 5 };
+
+function splitSentence(line: string): { type: string; fields: string[] } {
+    const asterisk = line.indexOf('*');
+    const fields = line.substring(1, asterisk === -1 ? undefined : asterisk).split(',');
+    return { type: fields[0].slice(-3), fields };
+}
+
+/** Seconds of the day from hhmmss.ss or null */
+function parseTimeOfDay(time: string | undefined): number | null {
+    if (!time || !/^\d{6}(\.\d+)?$/.test(time)) {
+        return null;
+    }
+    return parseInt(time.slice(0, 2), 10) * 3600 + parseInt(time.slice(2, 4), 10) * 60 + parseFloat(time.slice(4));
+}
+
+function pad2(value: number): string {
+    return value.toString().padStart(2, '0');
+}
+
+/** hhmmss.ss with the given number of decimals */
+export function formatTime(date: Date, decimals: number): string {
+    const fraction = date.getUTCMilliseconds().toString().padStart(3, '0').padEnd(decimals, '0').substring(0, decimals);
+    return `${pad2(date.getUTCHours())}${pad2(date.getUTCMinutes())}${pad2(date.getUTCSeconds())}${decimals ? `.${fraction}` : ''}`;
+}
+
+/** ddmmyy like in RMC */
+function formatDate(date: Date): string {
+    return `${pad2(date.getUTCDate())}${pad2(date.getUTCMonth() + 1)}${pad2(date.getUTCFullYear() % 100)}`;
+}
+
+/** ddmm.mmmm or dddmm.mmmm with hemisphere */
+export function formatCoordinate(value: number, latitude: boolean): [string, string] {
+    const abs = Math.abs(value);
+    let degrees = Math.floor(abs);
+    let minutes = +((abs - degrees) * 60).toFixed(5);
+    if (minutes >= 60) {
+        degrees++;
+        minutes -= 60;
+    }
+    const text = `${degrees.toString().padStart(latitude ? 2 : 3, '0')}${minutes.toFixed(5).padStart(8, '0')}`;
+    return [text, latitude ? (value < 0 ? 'S' : 'N') : value < 0 ? 'W' : 'E'];
+}
+
+function toLine(body: string): string {
+    return nmeaCommand(body).toString('ascii').trimEnd();
+}
+
+/**
+ * Split an NMEA log into frames. The sentences are timed by the UTC time of GGA, RMC, GNS, GLL, ZDA and GST.
+ * Lines may be written with or without the leading "$", other lines are ignored.
+ */
+export function parseNmeaLog(text: string): ReplayFrame[] {
+    const frames: ReplayFrame[] = [];
+    let lastTime: number | null = null;
+    let offset = 0;
+    let firstType = '';
+    let timed = false;
+    for (let line of text.split(/\r?\n/)) {
+        line = line.trim();
+        if (!/^[$!]?[A-Z][A-Z0-9]{2,},/.test(line)) {
+            continue;
+        }
+        if (line[0] !== '$' && line[0] !== '!') {
+            line = `$${line}`;
+        }
+        const { type, fields } = splitSentence(line);
+        const time = TIME_FIELDS[type] !== undefined ? parseTimeOfDay(fields[TIME_FIELDS[type]]) : null;
+        let newFrame = !frames.length;
+        if (time !== null) {
+            if (lastTime !== null && time !== lastTime) {
+                // over midnight the time of day starts again at 0
+                let step = (time - lastTime) * 1000;
+                if (step < -43200000) {
+                    step += 86400000;
+                }
+                if (step > 0) {
+                    offset += Math.min(step, MAX_PAUSE);
+                    newFrame = true;
+                }
+            }
+            lastTime = time;
+            timed = true;
+        } else if (!timed && fields[0] === firstType) {
+            // without times the type of the first sentence starts every epoch
+            offset += DEFAULT_INTERVAL;
+            newFrame = true;
+        }
+        firstType ||= fields[0];
+        if (newFrame) {
+            frames.push({ offset, lines: [line] });
+        } else {
+            frames[frames.length - 1].lines.push(line);
+        }
+    }
+    return frames;
+}
+
+/**
+ * Synthetic GGA and RMC sentences for every point of a recorded track. Speed and course are calculated
+ * from the distance to the previous point.
+ */
+export function trackToNmea(track: Track): ReplayFrame[] {
+    const frames: ReplayFrame[] = [];
+    let start = 0;
+    let pause = 0;
+    let previousTs = 0;
+    for (const segment of track.segments) {
+        for (let i = 0; i < segment.length; i++) {
+            const point = segment[i];
+            if (!frames.length) {
+                start = point.ts;
+            } else if (point.ts <= previousTs) {
+                continue;
+            } else if (point.ts - previousTs > MAX_PAUSE) {
+                pause += point.ts - previousTs - MAX_PAUSE;
+            }
+            previousTs = point.ts;
+            const prev = i ? segment[i - 1] : null;
+            const dt = prev ? (point.ts - prev.ts) / 1000 : 0;
+            const speedKnots =
+                prev && dt > 0 ? distance(prev.lat, prev.lon, point.lat, point.lon) / dt / (1852 / 3600) : 0;
+            const course = prev && speedKnots ? bearing(prev.lat, prev.lon, point.lat, point.lon) : 0;
+            const date = new Date(point.ts);
+            const time = formatTime(date, 2);
+            const [lat, ns] = formatCoordinate(point.lat, true);
+            const [lon, ew] = formatCoordinate(point.lon, false);
+            const alt = point.alt !== undefined ? point.alt.toFixed(1) : '';
+            frames.push({
+                offset: point.ts - start - pause,
+                lines: [
+                    toLine(`GPGGA,${time},${lat},${ns},${lon},${ew},1,,${point.hdop ?? ''},${alt},M,,M,,`),
+                    toLine(
+                        `GPRMC,${time},A,${lat},${ns},${lon},${ew},${speedKnots.toFixed(2)},${course.toFixed(1)},${formatDate(date)},,,A`,
+                    ),
+                ],
+            });
+        }
+    }
+    return frames;
+}
+
+/**
+ * Move the UTC time and date of a sentence, so that the times keep increasing when the replay jumps back
+ *
+ * @param line sentence with checksum
+ * @param shift ms to add
+ */
+export function shiftSentenceTime(line: string, shift: number): string {
+    const { type, fields } = splitSentence(line);
+    const index = TIME_FIELDS[type];
+    const seconds = index !== undefined ? parseTimeOfDay(fields[index]) : null;
+    if (!shift || seconds === null) {
+        return line;
+    }
+    const decimals = fields[index].split('.')[1]?.length || 0;
+    let day = Date.UTC(2000, 0, 1);
+    if (type === 'RMC' && /^\d{6}$/.test(fields[9])) {
+        const d = fields[9];
+        day = Date.UTC(
+            2000 + parseInt(d.slice(4, 6), 10),
+            parseInt(d.slice(2, 4), 10) - 1,
+            parseInt(d.slice(0, 2), 10),
+        );
+    } else if (type === 'ZDA' && fields[4]) {
+        day = Date.UTC(parseInt(fields[4], 10), parseInt(fields[3], 10) - 1, parseInt(fields[2], 10));
+    }
+    const date = new Date(day + Math.round(seconds * 1000) + shift);
+    fields[index] = formatTime(date, decimals);
+    if (type === 'RMC' && fields[9]) {
+        fields[9] = formatDate(date);
+    } else if (type === 'ZDA' && fields[4]) {
+        fields[2] = pad2(date.getUTCDate());
+        fields[3] = pad2(date.getUTCMonth() + 1);
+        fields[4] = date.getUTCFullYear().toString();
+    }
+    return toLine(fields.join(','));
+}
+
+/**
+ * Plays recorded frames with their original timing, as if they came from a receiver
+ */
+export class ReplayPlayer {
+    private index = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private isPlaying = false;
+    private sending = false;
+    /** real time and recording offset when the playback was started or changed */
+    private anchorTime = 0;
+    private anchorOffset = 0;
+    /** offset of the last sent frame */
+    private lastOffset = -1;
+    /** current position in ms, the last sent frame or the position of the last seek */
+    private current = 0;
+    /** added to the sentence times after jumps back */
+    private timeShift = 0;
+
+    /**
+     * @param frames recorded frames sorted by offset
+     * @param options playback speed and looping
+     * @param onData receives the sentences of each frame
+     * @param onChange called when playing, position or speed have changed
+     */
+    constructor(
+        private readonly frames: ReplayFrame[],
+        private readonly options: ReplayOptions,
+        private readonly onData: (data: Buffer) => Promise<void>,
+        private readonly onChange: () => void,
+    ) {}
+
+    get playing(): boolean {
+        return this.isPlaying;
+    }
+
+    /** length of the recording in seconds */
+    get duration(): number {
+        return this.frames.length ? this.frames[this.frames.length - 1].offset / 1000 : 0;
+    }
+
+    /** position in the recording in seconds */
+    get position(): number {
+        return this.current / 1000;
+    }
+
+    get speed(): number {
+        return this.options.speed;
+    }
+
+    set speed(speed: number) {
+        if (this.isPlaying) {
+            // continue from the current position of the recording with the new speed
+            this.anchor(this.anchorOffset + (Date.now() - this.anchorTime) * this.options.speed);
+        }
+        this.options.speed = speed;
+        this.schedule();
+    }
+
+    get loop(): boolean {
+        return this.options.loop;
+    }
+
+    set loop(loop: boolean) {
+        this.options.loop = loop;
+    }
+
+    play(): void {
+        if (this.isPlaying || !this.frames.length) {
+            return;
+        }
+        if (this.index >= this.frames.length) {
+            this.jump(0);
+        }
+        this.isPlaying = true;
+        this.anchor(this.frames[this.index].offset);
+        this.schedule();
+        this.onChange();
+    }
+
+    pause(): void {
+        if (!this.isPlaying) {
+            return;
+        }
+        this.isPlaying = false;
+        this.schedule();
+        this.onChange();
+    }
+
+    /** Stop without notification, e.g. on unload */
+    stop(): void {
+        this.isPlaying = false;
+        this.schedule();
+    }
+
+    /**
+     * Continue the playback at the given position
+     *
+     * @param position seconds from the start of the recording
+     */
+    seek(position: number): void {
+        const offset = Math.max(0, position * 1000);
+        const index = this.frames.findIndex(frame => frame.offset >= offset);
+        this.jump(index === -1 ? this.frames.length : index);
+        this.current = Math.min(offset, this.duration * 1000);
+        this.anchor(offset);
+        this.schedule();
+        this.onChange();
+    }
+
+    /** the frames are timed relative to this position of the recording, which is reached now */
+    private anchor(offset: number): void {
+        this.anchorTime = Date.now();
+        this.anchorOffset = offset;
+    }
+
+    /** time between the first two frames, used as time step when jumping back */
+    private get interval(): number {
+        return this.frames[1] ? this.frames[1].offset - this.frames[0].offset : DEFAULT_INTERVAL;
+    }
+
+    private jump(index: number): void {
+        const frame = this.frames[index];
+        if (frame && this.lastOffset >= 0 && frame.offset <= this.lastOffset) {
+            // the receiver time must not go back, or tracks, trips and the filter ignore the positions
+            this.timeShift += this.lastOffset - frame.offset + this.interval;
+        }
+        this.index = index;
+    }
+
+    private schedule(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (!this.isPlaying || this.sending) {
+            return;
+        }
+        if (this.index >= this.frames.length) {
+            if (!this.options.loop) {
+                this.isPlaying = false;
+                this.onChange();
+                return;
+            }
+            this.jump(0);
+            this.anchor(this.frames[0].offset - this.interval);
+        }
+        const frame = this.frames[this.index];
+        const delay = this.anchorTime + (frame.offset - this.anchorOffset) / this.options.speed - Date.now();
+        this.timer = setTimeout(
+            () => {
+                this.timer = null;
+                this.send(frame).catch(() => this.pause());
+            },
+            Math.max(0, delay),
+        );
+    }
+
+    private async send(frame: ReplayFrame): Promise<void> {
+        this.sending = true;
+        this.index++;
+        this.lastOffset = frame.offset;
+        this.current = frame.offset;
+        const lines = frame.lines.map(line => (this.timeShift ? shiftSentenceTime(line, this.timeShift) : line));
+        try {
+            await this.onData(Buffer.from(`${lines.join('\r\n')}\r\n`, 'ascii'));
+        } finally {
+            this.sending = false;
+        }
+        this.onChange();
+        this.schedule();
+    }
+}
@@ -0,0 +1,75 @@
+/** Serial port as listed by SerialPort.list() */
+export interface SerialPortInfo {
+    path: string;
+    manufacturer?: string;
+    serialNumber?: string;
+    vendorId?: string;
+    productId?: string;
+}
+
+export interface SerialDeviceChanges {
+    added: SerialPortInfo[];
+    /** paths of the removed ports */
+    removed: string[];
+}
+
+/**
+ * Identity of a USB device like "1546:01a9:0123456" (vendor ID, product ID and serial number if available),
+ * which stays the same when the device gets another path after a reboot or replug
+ *
+ * @returns empty string for ports that are not USB devices
+ */
+export function usbIdentity(port: SerialPortInfo): string {
+    if (!port.vendorId || !port.productId) {
+        return '';
+    }
+    const identity = `${port.vendorId.toLowerCase()}:${port.productId.toLowerCase()}`;
+    return port.serialNumber ? `${identity}:${port.serialNumber}` : identity;
+}
+
+/** Text for the selection of the port, e.g. "/dev/ttyACM0 - u-blox AG (1546:01a9)" */
+export function describePort(port: SerialPortInfo): string {
+    const details = [port.manufacturer, port.vendorId && port.productId ? `(${port.vendorId}:${port.productId})` : '']
+        .filter(item => item)
+        .join(' ');
+    return details ? `${port.path} - ${details}` : port.path;
+}
+
+/**
+ * Find the port of the device with the given identity. Without serial number in the identity the first
+ * device with the vendor and product ID is used.
+ */
+export function findPortByIdentity(ports: SerialPortInfo[], identity: string): SerialPortInfo | undefined {
+    const [vendorId, productId, ...serial] = identity.trim().split(':');
+    // serial numbers may contain ":"
+    const serialNumber = serial.join(':');
+    return ports.find(
+        port =>
+            port.vendorId?.toLowerCase() === vendorId.toLowerCase() &&
+            port.productId?.toLowerCase() === productId?.toLowerCase() &&
+            (!serialNumber || port.serialNumber === serialNumber),
+    );
+}
+
+/**
+ * Detects serial devices that were plugged in or removed since the last list
+ */
+export class SerialDeviceWatcher {
+    private known: Set<string> | null = null;
+
+    /**
+     * @returns null for the first list, as there is nothing to compare with
+     */
+    update(ports: SerialPortInfo[]): SerialDeviceChanges | null {
+        const paths = new Set(ports.map(port => port.path));
+        const known = this.known;
+        this.known = paths;
+        if (!known) {
+            return null;
+        }
+        return {
+            added: ports.filter(port => !known.has(port.path)),
+            removed: [...known].filter(path => !paths.has(path)),
+        };
+    }
+}
@@ -0,0 +1,284 @@
+export type Constellation = 'GPS' | 'GLONASS' | 'Galileo' | 'BeiDou' | 'QZSS' | 'NavIC' | 'SBAS' | 'unknown';
+
+export interface SatelliteInView {
+    constellation: Constellation;
+    prn: number;
+    /** degrees above horizon, null if not reported */
+    elevation: number | null;
+    /** degrees from true north, null if not reported */
+    azimuth: number | null;
+    /** signal-to-noise ratio in dB-Hz, null if not tracked */
+    snr: number | null;
+    /** satellite is listed in GSA as used for the fix */
+    used: boolean;
+}
+
+export interface SkySummary {
+    inView: number;
+    used: number;
+    perConstellation: Record<'GPS' | 'GLONASS' | 'Galileo' | 'BeiDou' | 'QZSS', number>;
+    snrMean: number;
+    snrMax: number;
+    satellites: SatelliteInView[];
+}
+
+// Entries not refreshed within this time are dropped (talker switched off or lost)
+const SKY_TIMEOUT = 30000;
+
+// NMEA 4.10 system IDs as used in GSA field 18
+const SYSTEM_IDS: Record<string, Constellation> = {
+    1: 'GPS',
+    2: 'GLONASS',
+    3: 'Galileo',
+    4: 'BeiDou',
+    5: 'QZSS',
+    6: 'NavIC',
+};
+
+/** gnssId as used by u-blox receivers and gpsd */
+export const GNSS_IDS: Record<number, Constellation> = {
+    0: 'GPS',
+    1: 'SBAS',
+    2: 'Galileo',
+    3: 'BeiDou',
+    5: 'QZSS',
+    6: 'GLONASS',
+    7: 'NavIC',
+};
+
+const TALKERS: Record<string, Constellation> = {
+    GP: 'GPS',
+    GL: 'GLONASS',
+    GA: 'Galileo',
+    GB: 'BeiDou',
+    BD: 'BeiDou',
+    GQ: 'QZSS',
+    QZ: 'QZSS',
+    GI: 'NavIC',
+};
+
+/** Guess constellation from the NMEA PRN numbering (used for GN talker without system ID) */
+export function constellationByPrn(prn: number): Constellation {
+    if (prn >= 1 && prn <= 32) {
+        return 'GPS';
+    }
+    if (prn >= 33 && prn <= 64) {
+        return 'SBAS';
+    }
+    if (prn >= 65 && prn <= 96) {
+        return 'GLONASS';
+    }
+    if (prn >= 193 && prn <= 202) {
+        return 'QZSS';
+    }
+    if ((prn >= 201 && prn <= 237) || (prn >= 401 && prn <= 437)) {
+        return 'BeiDou';
+    }
+    if (prn >= 301 && prn <= 336) {
+        return 'Galileo';
+    }
+    return 'unknown';
+}
+
+function constellationOf(talker: string, prn: number, systemId?: string): Constellation {
+    if (systemId && SYSTEM_IDS[systemId]) {
+        return SYSTEM_IDS[systemId];
+    }
+    const byTalker = TALKERS[talker];
+    if (byTalker === 'GPS' && prn >= 33 && prn <= 64) {
+        // SBAS satellites are reported under the GP talker
+        return 'SBAS';
+    }
+    return byTalker || constellationByPrn(prn);
+}
+
+function parseOptional(value: string | undefined): number | null {
+    if (value === undefined || value === '') {
+        return null;
+    }
+    const num = parseFloat(value);
+    return isNaN(num) ? null : num;
+}
+
+/**
+ * Build counts and SNR statistics for a list of satellites
+ *
+ * @param satellites satellites in view with the "used" flag already set
+ * @param used number of satellites used for the fix
+ */
+export function summarizeSky(satellites: SatelliteInView[], used: number): SkySummary {
+    const sorted = [...satellites].sort((a, b) =>
+        a.constellation === b.constellation ? a.prn - b.prn : a.constellation.localeCompare(b.constellation),
+    );
+    const perConstellation = { GPS: 0, GLONASS: 0, Galileo: 0, BeiDou: 0, QZSS: 0 };
+    let snrSum = 0;
+    let snrCount = 0;
+    let snrMax = 0;
+    for (const sat of sorted) {
+        if (sat.constellation in perConstellation) {
+            perConstellation[sat.constellation as keyof typeof perConstellation]++;
+        }
+        if (sat.snr !== null) {
+            snrSum += sat.snr;
+            snrCount++;
+            snrMax = Math.max(snrMax, sat.snr);
+        }
+    }
+
+    return {
+        inView: sorted.length,
+        used,
+        perConstellation,
+        snrMean: snrCount ? Math.round((snrSum / snrCount) * 10) / 10 : 0,
+        snrMax,
+        satellites: sorted,
+    };
+}
+
+/**
+ * Reassembles multi-part GSV messages per talker and combines them with the SV lists from GSA.
+ */
+export class SkyView {
+    private partial = new Map<string, { total: number; next: number; sats: SatelliteInView[] }>();
+    private complete = new Map<string, { ts: number; sats: SatelliteInView[] }>();
+    private used = new Map<Constellation, { ts: number; prns: Set<number> }>();
+
+    /**
+     * Process one GSV sentence
+     *
+     * @param talker two-letter talker ID, e.g. "GP"
+     * @param fields sentence fields without checksum, fields[0] is the sentence type
+     * @returns true if a talker's set of GSV messages is complete now
+     */
+    addGsv(talker: string, fields: string[]): boolean {
+        // $--GSV,numMsg,msgNum,numSV,{PRN,elev,az,snr}*1..4[,signalId]
+        const total = parseInt(fields[1], 10);
+        const num = parseInt(fields[2], 10);
+        if (isNaN(total) || isNaN(num) || num < 1 || num > total) {
+            return false;
+        }
+        const rest = fields.length - 4;
+        const signalId = rest % 4 === 1 ? fields[fields.length - 1] : '';
+        const key = `${talker}${signalId}`;
+
+        let entry = this.partial.get(key);
+        if (num === 1) {
+            entry = { total, next: 1, sats: [] };
+            this.partial.set(key, entry);
+        }
+        if (!entry || entry.total !== total || entry.next !== num) {
+            // message lost or out of order -> wait for the next set
+            this.partial.delete(key);
+            return false;
+        }
+
+        const groups = Math.floor(rest / 4);
+        for (let g = 0; g < groups; g++) {
+            const prn = parseInt(fields[4 + g * 4], 10);
+            if (isNaN(prn)) {
+                continue;
+            }
+            // the signal ID of GSV is not a system ID, so only the talker defines the constellation here
+            entry.sats.push({
+                constellation: constellationOf(talker, prn),
+                prn,
+                elevation: parseOptional(fields[5 + g * 4]),
+                azimuth: parseOptional(fields[6 + g * 4]),
+                snr: parseOptional(fields[7 + g * 4]),
+                used: false,
+            });
+        }
+
+        entry.next++;
+        if (num === total) {
+            this.partial.delete(key);
+            this.complete.set(key, { ts: Date.now(), sats: entry.sats });
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Process one GSA sentence and remember which satellites are used for the fix
+     *
+     * @param talker two-letter talker ID, e.g. "GN"
+     * @param fields sentence fields without checksum, fields[0] is the sentence type
+     */
+    addGsa(talker: string, fields: string[]): void {
+        // $--GSA,mode,fixType,SV1,...,SV12,pdop,hdop,vdop[,systemId]
+        const systemId = fields[18];
+        const now = Date.now();
+        const lists = new Map<Constellation, Set<number>>();
+        const fixed = systemId && SYSTEM_IDS[systemId] ? SYSTEM_IDS[systemId] : TALKERS[talker];
+        if (fixed) {
+            lists.set(fixed, new Set());
+        }
+        for (let i = 3; i <= 14; i++) {
+            const prn = parseInt(fields[i], 10);
+            if (isNaN(prn)) {
+                continue;
+            }
+            const constellation = constellationOf(talker, prn, systemId);
+            let list = lists.get(constellation);
+            if (!list) {
+                list = new Set();
+                lists.set(constellation, list);
+            }
+            list.add(prn);
+        }
+        for (const [constellation, prns] of lists) {
+            this.used.set(constellation, { ts: now, prns });
+        }
+    }
+
+    /** Number of satellites used for the fix over all constellations */
+    getUsedCount(): number {
+        this.expire();
+        let count = 0;
+        for (const item of this.used.values()) {
+            count += item.prns.size;
+        }
+        return count;
+    }
+
+    getSummary(): SkySummary {
+        this.expire();
+        const byKey = new Map<string, SatelliteInView>();
+        for (const { sats } of this.complete.values()) {
+            for (const sat of sats) {
+                const key = `${sat.constellation}/${sat.prn}`;
+                const existing = byKey.get(key);
+                if (!existing) {
+                    byKey.set(key, { ...sat });
+                    continue;
+                }
+                // the same satellite reported for several signals (L1, L5, ...) -> keep the best one
+                existing.elevation ??= sat.elevation;
+                existing.azimuth ??= sat.azimuth;
+                if (sat.snr !== null && (existing.snr === null || sat.snr > existing.snr)) {
+                    existing.snr = sat.snr;
+                }
+            }
+        }
+
+        const satellites = [...byKey.values()];
+        for (const sat of satellites) {
+            sat.used = !!this.used.get(sat.constellation)?.prns.has(sat.prn);
+        }
+        return summarizeSky(satellites, this.getUsedCount());
+    }
+
+    private expire(): void {
+        const now = Date.now();
+        for (const [key, item] of this.complete) {
+            if (now - item.ts > SKY_TIMEOUT) {
+                this.complete.delete(key);
+            }
+        }
+        for (const [key, item] of this.used) {
+            if (now - item.ts > SKY_TIMEOUT) {
+                this.used.delete(key);
+            }
+        }
+    }
+}
@@ -0,0 +1,221 @@
+export type TrackFormat = 'gpx' | 'kml' | 'geojson';
+
+export const TRACK_FORMATS: TrackFormat[] = ['gpx', 'kml', 'geojson'];
+
+export interface TrackPoint {
+    /** epoch ms */
+    ts: number;
+    lat: number;
+    lon: number;
+    /** altitude above mean sea level in metres */
+    alt?: number;
+    hdop?: number;
+}
+
+export interface Track {
+    name: string;
+    /** every segment is a continuous part of the track, a new segment starts after fix loss */
+    segments: TrackPoint[][];
+}
+
+const CREATOR = 'ioBroker.serial-gps';
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function toGpx(track: Track): string {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+        '  <trk>',
+        `    <name>${escapeXml(track.name)}</name>`,
+    ];
+    for (const segment of track.segments) {
+        lines.push('    <trkseg>');
+        for (const p of segment) {
+            let extra = '';
+            if (p.alt !== undefined) {
+                extra += `<ele>${p.alt}</ele>`;
+            }
+            extra += `<time>${new Date(p.ts).toISOString()}</time>`;
+            if (p.hdop !== undefined) {
+                extra += `<hdop>${p.hdop}</hdop>`;
+            }
+            lines.push(`      <trkpt lat="${p.lat}" lon="${p.lon}">${extra}</trkpt>`);
+        }
+        lines.push('    </trkseg>');
+    }
+    lines.push('  </trk>', '</gpx>', '');
+    return lines.join('\n');
+}
+
+function toKml(track: Track): string {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+        '  <Document>',
+        `    <name>${escapeXml(track.name)}</name>`,
+        '    <Placemark>',
+        `      <name>${escapeXml(track.name)}</name>`,
+        '      <gx:MultiTrack>',
+    ];
+    for (const segment of track.segments) {
+        lines.push('        <gx:Track>', '          <altitudeMode>absolute</altitudeMode>');
+        for (const p of segment) {
+            lines.push(`          <when>${new Date(p.ts).toISOString()}</when>`);
+        }
+        for (const p of segment) {
+            lines.push(`          <gx:coord>${p.lon} ${p.lat} ${p.alt ?? 0}</gx:coord>`);
+        }
+        lines.push('        </gx:Track>');
+    }
+    lines.push('      </gx:MultiTrack>', '    </Placemark>', '  </Document>', '</kml>', '');
+    return lines.join('\n');
+}
+
+function toGeoJson(track: Track): string {
+    return JSON.stringify({
+        type: 'FeatureCollection',
+        features: [
+            {
+                type: 'Feature',
+                properties: {
+                    name: track.name,
+                    creator: CREATOR,
+                    // the same convention as used by togeojson and other tools
+                    coordTimes: track.segments.map(segment => segment.map(p => new Date(p.ts).toISOString())),
+                },
+                geometry: {
+                    type: 'MultiLineString',
+                    coordinates: track.segments.map(segment =>
+                        segment.map(p => (p.alt !== undefined ? [p.lon, p.lat, p.alt] : [p.lon, p.lat])),
+                    ),
+                },
+            },
+        ],
+    });
+}
+
+/** Serialize a track as GPX 1.1, KML (gx:Track with times) or GeoJSON MultiLineString */
+export function formatTrack(track: Track, format: TrackFormat): string {
+    switch (format) {
+        case 'kml':
+            return toKml(track);
+        case 'geojson':
+            return toGeoJson(track);
+        default:
+            return toGpx(track);
+    }
+}
+
+function tagValue(xml: string, tag: string): string | undefined {
+    const m = xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`));
+    return m ? m[1] : undefined;
+}
+
+function parseGpx(text: string): Track {
+    const track: Track = { name: tagValue(text, 'name') || '', segments: [] };
+    for (const seg of text.split('<trkseg>').slice(1)) {
+        const segment: TrackPoint[] = [];
+        const re = /<trkpt lat="([^"]+)" lon="([^"]+)">(.*?)<\/trkpt>/g;
+        let m: RegExpExecArray | null;
+        while ((m = re.exec(seg))) {
+            const time = tagValue(m[3], 'time');
+            const ele = tagValue(m[3], 'ele');
+            const hdop = tagValue(m[3], 'hdop');
+            segment.push({
+                ts: time ? Date.parse(time) : 0,
+                lat: parseFloat(m[1]),
+                lon: parseFloat(m[2]),
+                alt: ele !== undefined ? parseFloat(ele) : undefined,
+                hdop: hdop !== undefined ? parseFloat(hdop) : undefined,
+            });
+        }
+        track.segments.push(segment);
+    }
+    return track;
+}
+
+function parseKml(text: string): Track {
+    const track: Track = { name: tagValue(text, 'name') || '', segments: [] };
+    for (const seg of text.split('<gx:Track>').slice(1)) {
+        const times = [...seg.matchAll(/<when>([^<]*)<\/when>/g)].map(m => Date.parse(m[1]));
+        const coords = [...seg.matchAll(/<gx:coord>([^<]*)<\/gx:coord>/g)].map(m => m[1].trim().split(/\s+/));
+        track.segments.push(
+            coords.map(([lon, lat, alt], i) => ({
+                ts: times[i] || 0,
+                lat: parseFloat(lat),
+                lon: parseFloat(lon),
+                alt: alt !== undefined ? parseFloat(alt) : undefined,
+            })),
+        );
+    }
+    return track;
+}
+
+function parseGeoJson(text: string): Track {
+    const feature = JSON.parse(text).features?.[0];
+    const times: string[][] = feature?.properties?.coordTimes || [];
+    const coordinates: number[][][] = feature?.geometry?.coordinates || [];
+    return {
+        name: feature?.properties?.name || '',
+        segments: coordinates.map((segment, s) =>
+            segment.map(([lon, lat, alt], i) => ({
+                ts: times[s]?.[i] ? Date.parse(times[s][i]) : 0,
+                lat,
+                lon,
+                alt,
+            })),
+        ),
+    };
+}
+
+/** Read a track written by formatTrack */
+export function parseTrack(text: string, format: TrackFormat): Track {
+    switch (format) {
+        case 'kml':
+            return parseKml(text);
+        case 'geojson':
+            return parseGeoJson(text);
+        default:
+            return parseGpx(text);
+    }
+}
+
+/** Only the points between from and to (epoch ms), segments without points are removed */
+export function filterTrack(track: Track, from: number, to: number): Track {
+    return {
+        name: track.name,
+        segments: track.segments
+            .map(segment => segment.filter(p => p.ts >= from && p.ts <= to))
+            .filter(segment => segment.length),
+    };
+}
+
+/**
+ * Name of the track file for a point, one file per UTC day or one file per trip named after the start time
+ *
+ * @param ts time of the first point in the file
+ * @param perTrip true if the file is rotated per trip
+ */
+export function trackFileName(ts: number, perTrip: boolean, format: TrackFormat): string {
+    const iso = new Date(ts).toISOString();
+    const name = perTrip ? `${iso.substring(0, 10)}_${iso.substring(11, 19).replace(/:/g, '-')}` : iso.substring(0, 10);
+    return `${name}.${format}`;
+}
+
+/** Date of a track file from its name, used for retention */
+export function trackFileDate(fileName: string): number {
+    const m = fileName.match(/^(\d{4}-\d{2}-\d{2})(?:_(\d{2})-(\d{2})-(\d{2}))?\./);
+    if (!m) {
+        return 0;
+    }
+    return Date.parse(`${m[1]}T${m[2] || '00'}:${m[3] || '00'}:${m[4] || '00'}Z`);
+}
+
+/** Format by file extension or null if the file is not a track */
+export function trackFormatOfFile(fileName: string): TrackFormat | null {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    return TRACK_FORMATS.find(format => format === ext) || null;
+}
@@ -0,0 +1,212 @@
+import {
+    type Track,
+    type TrackFormat,
+    type TrackPoint,
+    filterTrack,
+    formatTrack,
+    parseTrack,
+    trackFileDate,
+    trackFileName,
+    trackFormatOfFile,
+} from './track';
+
+/** Directory in the files of the instance */
+export const TRACK_DIR = 'tracks';
+
+// A gap without points longer than this starts a new segment, even without reported fix loss
+const SEGMENT_GAP = 60000;
+
+export interface TrackRecorderOptions {
+    format: TrackFormat;
+    /** one file per trip instead of one file per day */
+    perTrip: boolean;
+    /** minimal time between recorded points in ms */
+    interval: number;
+    /** a pause longer than this starts a new trip file in ms */
+    tripGap: number;
+    /** files older than this are deleted, 0 - keep forever */
+    retentionDays: number;
+    /** maximal number of files, 0 - unlimited */
+    maxFiles: number;
+}
+
+/**
+ * Writes positions to GPX, KML or GeoJSON files in the files storage of the instance.
+ * The current file is kept in memory and written on flush.
+ */
+export class TrackRecorder {
+    private file = '';
+    private track: Track | null = null;
+    private lastTs = 0;
+    private dirty = false;
+    private segmentBreak = false;
+
+    constructor(
+        private readonly adapter: ioBroker.Adapter,
+        private readonly options: TrackRecorderOptions,
+    ) {}
+
+    /** Name of the current file */
+    get fileName(): string {
+        return this.file;
+    }
+
+    /** Number of points in the current file */
+    get points(): number {
+        return this.track?.segments.reduce((sum, segment) => sum + segment.length, 0) || 0;
+    }
+
+    /** Start a new segment with the next point, e.g. on fix loss or pause */
+    breakSegment(): void {
+        this.segmentBreak = true;
+    }
+
+    /**
+     * Add a fix to the track
+     *
+     * @returns true if the point was recorded
+     */
+    async addPoint(point: TrackPoint): Promise<boolean> {
+        // GGA and RMC of the same epoch deliver the same position
+        if (this.track && point.ts <= this.lastTs) {
+            return false;
+        }
+        const gap = point.ts - this.lastTs;
+        if (this.track && gap < this.options.interval && !this.segmentBreak) {
+            return false;
+        }
+
+        const rotate = this.options.perTrip
+            ? gap > this.options.tripGap
+            : trackFileName(point.ts, false, this.options.format) !== this.file;
+        if (!this.track || rotate) {
+            await this.startFile(point.ts);
+        }
+
+        const track = this.track!;
+        if (this.segmentBreak || !track.segments.length || point.ts - this.lastTs > SEGMENT_GAP) {
+            track.segments.push([]);
+        }
+        track.segments[track.segments.length - 1].push(point);
+        this.segmentBreak = false;
+        this.lastTs = point.ts;
+        this.dirty = true;
+        return true;
+    }
+
+    /** Write the current file if it has new points */
+    async flush(): Promise<void> {
+        if (!this.dirty || !this.track) {
+            return;
+        }
+        this.dirty = false;
+        await this.adapter.writeFileAsync(
+            this.adapter.namespace,
+            `${TRACK_DIR}/${this.file}`,
+            formatTrack(this.track, this.options.format),
+        );
+    }
+
+    /** List of track files with size */
+    async listFiles(): Promise<{ file: string; size: number; ts: number }[]> {
+        let entries: ioBroker.ReadDirResult[];
+        try {
+            entries = await this.adapter.readDirAsync(this.adapter.namespace, TRACK_DIR);
+        } catch {
+            // directory does not exist yet
+            return [];
+        }
+        return entries
+            .filter(entry => !entry.isDir && trackFormatOfFile(entry.file))
+            .map(entry => ({ file: entry.file, size: entry.stats?.size || 0, ts: trackFileDate(entry.file) }))
+            .sort((a, b) => a.ts - b.ts);
+    }
+
+    /**
+     * Collect all recorded points in the time range
+     *
+     * @param from epoch ms
+     * @param to epoch ms
+     */
+    async getTrack(from: number, to: number): Promise<Track> {
+        await this.flush();
+        const result: Track = {
+            name: `${new Date(from).toISOString()} - ${new Date(to).toISOString()}`,
+            segments: [],
+        };
+        const files = await this.listFiles();
+        for (let i = 0; i < files.length; i++) {
+            // the file starts at its date and ends latest with the start of the next file
+            const end = i < files.length - 1 ? files[i + 1].ts : Infinity;
+            if (files[i].ts > to || end < from) {
+                continue;
+            }
+            const track = await this.readFile(files[i].file);
+            if (track) {
+                result.segments.push(...filterTrack(track, from, to).segments);
+            }
+        }
+        result.segments.sort((a, b) => a[0].ts - b[0].ts);
+        return result;
+    }
+
+    /** Delete files that are too old or exceed the maximal number */
+    async applyRetention(now: number = Date.now()): Promise<void> {
+        const files = (await this.listFiles()).filter(item => item.file !== this.file);
+        const limit = this.options.retentionDays ? now - this.options.retentionDays * 24 * 3600000 : 0;
+        // the current file is not in the list, so keep one place for it
+        const tooMany = this.options.maxFiles ? files.length - (this.options.maxFiles - 1) : 0;
+        for (let i = 0; i < files.length; i++) {
+            if (i < tooMany || (limit && files[i].ts < limit)) {
+                this.adapter.log.info(`Delete track file ${files[i].file}`);
+                try {
+                    await this.adapter.delFileAsync(this.adapter.namespace, `${TRACK_DIR}/${files[i].file}`);
+                } catch (e) {
+                    this.adapter.log.warn(`Cannot delete track file ${files[i].file}: ${e.message || e}`);
+                }
+            }
+        }
+    }
+
+    private async readFile(file: string): Promise<Track | null> {
+        const format = trackFormatOfFile(file);
+        if (!format) {
+            return null;
+        }
+        try {
+            const data = await this.adapter.readFileAsync(this.adapter.namespace, `${TRACK_DIR}/${file}`);
+            return parseTrack(data.file.toString(), format);
+        } catch (e) {
+            this.adapter.log.warn(`Cannot read track file ${file}: ${e.message || e}`);
+            return null;
+        }
+    }
+
+    private async startFile(ts: number): Promise<void> {
+        await this.flush();
+        const files = await this.listFiles();
+
+        // continue the last file after restart if it belongs to the same day or trip
+        if (!this.track && files.length) {
+            const last = files[files.length - 1];
+            const track = trackFormatOfFile(last.file) === this.options.format ? await this.readFile(last.file) : null;
+            const lastSegment = track?.segments[track.segments.length - 1];
+            const lastTs = lastSegment?.[lastSegment.length - 1]?.ts || 0;
+            const sameFile = this.options.perTrip
+                ? ts - lastTs <= this.options.tripGap
+                : last.file === trackFileName(ts, false, this.options.format);
+            if (track && lastTs && lastTs < ts && sameFile) {
+                this.track = track;
+                this.file = last.file;
+                this.lastTs = lastTs;
+                this.segmentBreak = true;
+                return;
+            }
+        }
+
+        this.file = trackFileName(ts, this.options.perTrip, this.options.format);
+        this.track = { name: this.file.replace(/\.[^.]+$/, ''), segments: [] };
+        this.adapter.log.info(`Start track file ${this.file}`);
+        await this.applyRetention();
+    }
+}
@@ -0,0 +1,163 @@
+import { distance } from './geo';
+
+export interface TripOptions {
+    /** speed in km/h from which the vehicle is considered to start moving */
+    startSpeed: number;
+    /** below this speed in km/h the vehicle is considered standing, no distance is added */
+    stopSpeed: number;
+    /** distance in metres from the last stop before a trip starts */
+    startDistance: number;
+    /** standing time in ms after which the trip ends */
+    stopTimeout: number;
+    /** number of trips kept in the history */
+    historySize: number;
+}
+
+export interface Trip {
+    /** start time, epoch ms */
+    start: number;
+    /** end time (last movement), epoch ms */
+    end: number;
+    startLat: number;
+    startLon: number;
+    endLat: number;
+    endLon: number;
+    /** metres */
+    distance: number;
+    /** ms */
+    movingTime: number;
+    /** km/h */
+    maxSpeed: number;
+}
+
+export interface TripFix {
+    ts: number;
+    lat: number;
+    lon: number;
+    /** km/h */
+    speed: number;
+}
+
+export interface TripUpdate {
+    odometerChanged: boolean;
+    started: boolean;
+    /** the trip that ended with this fix */
+    ended: Trip | null;
+}
+
+// Without fixes for this time the distance to the next fix is not counted (e.g. tunnel, receiver off)
+const MAX_GAP = 300000;
+
+/**
+ * Odometer and trip detection from successive fixes
+ */
+export class TripComputer {
+    /** total distance in metres */
+    public odometer: number;
+    /** active trip or the last finished trip */
+    public trip: Trip | null = null;
+    public active = false;
+    public history: Trip[];
+    private last: TripFix | null = null;
+    /** first fix of the current movement, before the trip has started */
+    private departure: TripFix | null = null;
+    /** position where the vehicle stopped last time */
+    private stop: TripFix | null = null;
+
+    constructor(
+        private readonly options: TripOptions,
+        odometer: number,
+        history: Trip[],
+    ) {
+        this.odometer = odometer;
+        this.history = history;
+    }
+
+    update(fix: TripFix): TripUpdate {
+        const result: TripUpdate = { odometerChanged: false, started: false, ended: null };
+        const last = this.last;
+        if (last && fix.ts <= last.ts) {
+            // same epoch from GGA and RMC
+            return result;
+        }
+        this.last = fix;
+        if (!last || fix.ts - last.ts > MAX_GAP) {
+            this.stop ||= fix;
+            return result;
+        }
+
+        const dt = fix.ts - last.ts;
+        const moving = fix.speed >= this.options.stopSpeed;
+        const d = moving ? distance(last.lat, last.lon, fix.lat, fix.lon) : 0;
+        if (d) {
+            this.odometer += d;
+            result.odometerChanged = true;
+        }
+
+        if (this.active) {
+            const trip = this.trip!;
+            if (moving) {
+                trip.distance += d;
+                trip.movingTime += dt;
+                trip.maxSpeed = Math.max(trip.maxSpeed, fix.speed);
+                trip.end = fix.ts;
+                trip.endLat = fix.lat;
+                trip.endLon = fix.lon;
+            } else if (fix.ts - trip.end >= this.options.stopTimeout) {
+                this.active = false;
+                this.stop = fix;
+                this.departure = null;
+                this.history.unshift({ ...trip });
+                this.history.splice(this.options.historySize);
+                result.ended = trip;
+            }
+            return result;
+        }
+
+        if (fix.speed < this.options.startSpeed) {
+            if (!moving) {
+                this.departure = null;
+                this.stop = fix;
+            }
+            return result;
+        }
+        this.departure ||= last;
+        const from = this.stop || this.departure;
+        if (distance(from.lat, from.lon, fix.lat, fix.lon) >= this.options.startDistance) {
+            const departure = this.departure;
+            this.active = true;
+            this.trip = {
+                start: departure.ts,
+                end: fix.ts,
+                startLat: departure.lat,
+                startLon: departure.lon,
+                endLat: fix.lat,
+                endLon: fix.lon,
+                distance: distance(departure.lat, departure.lon, fix.lat, fix.lon),
+                movingTime: fix.ts - departure.ts,
+                maxSpeed: fix.speed,
+            };
+            result.started = true;
+        }
+        return result;
+    }
+
+    /** Restart the current trip from the last position or clear the last trip */
+    resetTrip(): void {
+        if (this.active && this.last) {
+            this.trip = {
+                start: this.last.ts,
+                end: this.last.ts,
+                startLat: this.last.lat,
+                startLon: this.last.lon,
+                endLat: this.last.lat,
+                endLon: this.last.lon,
+                distance: 0,
+                movingTime: 0,
+                maxSpeed: 0,
+            };
+        } else {
+            this.trip = null;
+        }
+    }
+}
@@ -0,0 +1,318 @@
+import { GNSS_IDS, type SatelliteInView } from './sky';
+
+/** Message IDs as (class << 8) | id */
+export const UBX_NAV_STATUS = 0x0103;
+export const UBX_NAV_PVT = 0x0107;
+export const UBX_NAV_TIMEGPS = 0x0120;
+export const UBX_NAV_SAT = 0x0135;
+export const UBX_ACK_NAK = 0x0500;
+export const UBX_ACK_ACK = 0x0501;
+
+const SYNC1 = 0xb5;
+const SYNC2 = 0x62;
+// sync, class, id and length
+const HEADER_LENGTH = 6;
+// Longer payloads are not expected for the decoded messages, so the sync bytes are rather random data
+const MAX_PAYLOAD = 8192;
+// A text line longer than this is garbage
+const MAX_LINE = 4096;
+// A frame that is not complete after this time (ms) has a corrupted length
+const FRAME_TIMEOUT = 2000;
+
+export type ReceivedFrame = { type: 'nmea'; line: string } | { type: 'ubx'; id: number; payload: Buffer };
+
+/** 8-bit Fletcher checksum over class, id, length and payload */
+export function ubxChecksum(data: Buffer, start: number, end: number): [number, number] {
+    let a = 0;
+    let b = 0;
+    for (let i = start; i < end; i++) {
+        a = (a + data[i]) & 0xff;
+        b = (b + a) & 0xff;
+    }
+    return [a, b];
+}
+
+/**
+ * Build a UBX frame
+ *
+ * @param id message ID as (class << 8) | id
+ * @param payload message payload
+ */
+export function buildUbx(id: number, payload: Buffer = Buffer.alloc(0)): Buffer {
+    const frame = Buffer.alloc(HEADER_LENGTH + payload.length + 2);
+    frame[0] = SYNC1;
+    frame[1] = SYNC2;
+    frame[2] = id >> 8;
+    frame[3] = id & 0xff;
+    frame.writeUInt16LE(payload.length, 4);
+    payload.copy(frame, HEADER_LENGTH);
+    const [a, b] = ubxChecksum(frame, 2, frame.length - 2);
+    frame[frame.length - 2] = a;
+    frame[frame.length - 1] = b;
+    return frame;
+}
+
+/**
+ * Separates UBX frames and NMEA lines in one byte stream, as u-blox receivers can send both on the same port
+ */
+export class UbxNmeaFramer {
+    private buffer = Buffer.alloc(0);
+    /** time since when the frame at the start of the buffer is incomplete */
+    private waitingSince = 0;
+
+    reset(): void {
+        this.buffer = Buffer.alloc(0);
+        this.waitingSince = 0;
+    }
+
+    /**
+     * Add received data
+     *
+     * @param data received bytes
+     * @param now time of the reception
+     * @returns all complete frames, incomplete data is kept for the next call
+     */
+    push(data: Buffer, now: number = Date.now()): ReceivedFrame[] {
+        const buffer = this.buffer.length ? Buffer.concat([this.buffer, data]) : data;
+        const frames: ReceivedFrame[] = [];
+        let pos = 0;
+        let waiting = false;
+        while (pos < buffer.length) {
+            if (buffer[pos] === SYNC1 && buffer[pos + 1] === SYNC2) {
+                if (buffer.length - pos < HEADER_LENGTH) {
+                    break;
+                }
+                const length = buffer.readUInt16LE(pos + 4);
+                if (length > MAX_PAYLOAD) {
+                    pos++;
+                    continue;
+                }
+                const end = pos + HEADER_LENGTH + length + 2;
+                if (buffer.length < end) {
+                    // a corrupted length must not hold back the following data
+                    if (pos === 0 && this.waitingSince && now - this.waitingSince > FRAME_TIMEOUT) {
+                        pos++;
+                        continue;
+                    }
+                    waiting = true;
+                    break;
+                }
+                const [a, b] = ubxChecksum(buffer, pos + 2, end - 2);
+                if (a !== buffer[end - 2] || b !== buffer[end - 1]) {
+                    pos++;
+                    continue;
+                }
+                frames.push({
+                    type: 'ubx',
+                    id: (buffer[pos + 2] << 8) | buffer[pos + 3],
+                    payload: Buffer.from(buffer.subarray(pos + HEADER_LENGTH, end - 2)),
+                });
+                pos = end;
+                continue;
+            }
+
+            const newLine = buffer.indexOf(0x0a, pos);
+            let sync = buffer.indexOf(SYNC1, pos);
+            while (sync !== -1 && sync + 1 < buffer.length && buffer[sync + 1] !== SYNC2) {
+                sync = buffer.indexOf(SYNC1, sync + 1);
+            }
+            if (newLine !== -1 && (sync === -1 || newLine < sync)) {
+                const line = buffer.toString('latin1', pos, newLine + 1);
+                // NMEA is printable ASCII, anything else is a rest of a broken binary frame
+                if (!/[^\t\r\n\x20-\x7e]/.test(line)) {
+                    frames.push({ type: 'nmea', line });
+                } else {
+                    // a sentence can follow the rest, it starts at the last "$" or "!"
+                    const start = Math.max(line.lastIndexOf('$'), line.lastIndexOf('!'));
+                    if (start !== -1 && !/[^\t\r\n\x20-\x7e]/.test(line.slice(start))) {
+                        frames.push({ type: 'nmea', line: line.slice(start) });
+                    }
+                }
+                pos = newLine + 1;
+            } else if (sync !== -1 && sync + 1 < buffer.length) {
+                // the text before a UBX frame is an incomplete line
+                pos = sync;
+            } else {
+                if (buffer.length - pos > MAX_LINE) {
+                    pos = buffer.length;
+                }
+                break;
+            }
+        }
+        if (!waiting) {
+            this.waitingSince = 0;
+        } else if (pos > 0 || !this.waitingSince) {
+            this.waitingSince = now;
+        }
+        this.buffer = pos < buffer.length ? Buffer.from(buffer.subarray(pos)) : Buffer.alloc(0);
+        return frames;
+    }
+}
+
+export interface UbxNavPvt {
+    /** UTC epoch ms, null if date or time is not valid */
+    ts: number | null;
+    /** date and time are valid */
+    timeValid: boolean;
+    /** UTC time is fully resolved, i.e. the leap seconds are known */
+    timeResolved: boolean;
+    /** time accuracy estimate in ns */
+    timeAccuracy: number;
+    /** 0 no fix, 1 dead reckoning only, 2 2D, 3 3D, 4 GNSS + dead reckoning, 5 time only */
+    fixType: number;
+    /** fix within the DOP and accuracy masks */
+    fixOk: boolean;
+    /** differential corrections applied */
+    diffSoln: boolean;
+    /** 0 no carrier phase solution, 1 RTK float, 2 RTK fixed */
+    carrSoln: number;
+    numSV: number;
+    lat: number;
+    lon: number;
+    /** height above ellipsoid in m */
+    height: number;
+    /** height above mean sea level in m */
+    altMsl: number;
+    /** horizontal accuracy estimate in m */
+    hAcc: number;
+    /** vertical accuracy estimate in m */
+    vAcc: number;
+    /** velocity north, east and down in m/s */
+    velN: number;
+    velE: number;
+    velD: number;
+    /** ground speed in m/s */
+    speed: number;
+    /** heading of motion in degrees */
+    heading: number;
+    /** speed accuracy estimate in m/s */
+    speedAccuracy: number;
+    pdop: number;
+}
+
+export function parseNavPvt(payload: Buffer): UbxNavPvt | null {
+    if (payload.length < 92) {
+        return null;
+    }
+    const valid = payload[11];
+    const flags = payload[21];
+    const timeValid = (valid & 0x03) === 0x03;
+    return {
+        ts: timeValid
+            ? Date.UTC(
+                  payload.readUInt16LE(4),
+                  payload[6] - 1,
+                  payload[7],
+                  payload[8],
+                  payload[9],
+                  payload[10],
+                  Math.round(payload.readInt32LE(16) / 1e6),
+              )
+            : null,
+        timeValid,
+        timeResolved: !!(valid & 0x04),
+        timeAccuracy: payload.readUInt32LE(12),
+        fixType: payload[20],
+        fixOk: !!(flags & 0x01),
+        diffSoln: !!(flags & 0x02),
+        carrSoln: (flags >> 6) & 0x03,
+        numSV: payload[23],
+        lon: payload.readInt32LE(24) / 1e7,
+        lat: payload.readInt32LE(28) / 1e7,
+        height: payload.readInt32LE(32) / 1000,
+        altMsl: payload.readInt32LE(36) / 1000,
+        hAcc: payload.readUInt32LE(40) / 1000,
+        vAcc: payload.readUInt32LE(44) / 1000,
+        velN: payload.readInt32LE(48) / 1000,
+        velE: payload.readInt32LE(52) / 1000,
+        velD: payload.readInt32LE(56) / 1000,
+        speed: payload.readInt32LE(60) / 1000,
+        heading: payload.readInt32LE(64) / 1e5,
+        speedAccuracy: payload.readUInt32LE(68) / 1000,
+        pdop: payload.readUInt16LE(76) / 100,
+    };
+}
+
+/** Map the NAV-PVT fix to the GGA fix quality */
+export function ubxFixQuality(pvt: UbxNavPvt): number {
+    if (!pvt.fixOk || pvt.fixType === 0 || pvt.fixType === 5) {
+        return 0;
+    }
+    if (pvt.fixType === 1) {
+        return 6;
+    }
+    if (pvt.carrSoln === 2) {
+        return 4;
+    }
+    if (pvt.carrSoln === 1) {
+        return 5;
+    }
+    return pvt.diffSoln ? 2 : 1;
+}
+
+/** Satellites of a NAV-SAT message in the sky view representation */
+export function parseNavSat(payload: Buffer): SatelliteInView[] | null {
+    if (payload.length < 8) {
+        return null;
+    }
+    const count = payload[5];
+    if (payload.length < 8 + count * 12) {
+        return null;
+    }
+    const satellites: SatelliteInView[] = [];
+    for (let i = 0; i < count; i++) {
+        const offset = 8 + i * 12;
+        const elevation = payload.readInt8(offset + 3);
+        const known = elevation >= -90 && elevation <= 90;
+        const cno = payload[offset + 2];
+        satellites.push({
+            constellation: GNSS_IDS[payload[offset]] || 'unknown',
+            prn: payload[offset + 1],
+            elevation: known ? elevation : null,
+            azimuth: known ? payload.readInt16LE(offset + 4) : null,
+            snr: cno || null,
+            used: !!(payload.readUInt32LE(offset + 8) & 0x08),
+        });
+    }
+    return satellites;
+}
+
+export interface UbxNavStatus {
+    fixType: number;
+    fixOk: boolean;
+    /** 0 unknown, 1 no spoofing, 2 spoofing indicated, 3 multiple spoofing indications */
+    spoofing: number;
+    /** time to first fix in ms */
+    ttff: number;
+    /** ms since startup or reset */
+    uptime: number;
+}
+
+export function parseNavStatus(payload: Buffer): UbxNavStatus | null {
+    if (payload.length < 16) {
+        return null;
+    }
+    return {
+        fixType: payload[4],
+        fixOk: !!(payload[5] & 0x01),
+        spoofing: (payload[7] >> 3) & 0x03,
+        ttff: payload.readUInt32LE(8),
+        uptime: payload.readUInt32LE(12),
+    };
+}
+
+export interface UbxNavTimeGps {
+    /** GPS - UTC leap seconds */
+    leapSeconds: number;
+    leapSecondsValid: boolean;
+}
+
+export function parseNavTimeGps(payload: Buffer): UbxNavTimeGps | null {
+    if (payload.length < 16) {
+        return null;
+    }
+    return {
+        leapSeconds: payload.readInt8(10),
+        leapSecondsValid: !!(payload[11] & 0x04),
+    };
+}
@@ -0,0 +1,79 @@
+export interface WatchdogOptions {
+    /** without received data for this time in ms the receiver is silent */
+    dataTimeout: number;
+    /** without valid fix for this time in ms the fix is lost */
+    fixTimeout: number;
+}
+
+export interface WatchdogStatus {
+    /** data was received within the data timeout */
+    receiving: boolean;
+    /** a valid fix was received within the fix timeout */
+    fixValid: boolean;
+    /** seconds since the last valid fix, null if there was none */
+    fixAge: number | null;
+    /** system time of the last valid fix, 0 if there was none */
+    lastFixTime: number;
+    /** received sentences, UBX messages or gpsd reports per second, averaged over some seconds */
+    sentencesPerSecond: number;
+    checksumErrors: number;
+    parseErrors: number;
+    reconnects: number;
+}
+
+// Sentences per second are averaged over this time in ms
+const RATE_WINDOW = 10000;
+
+/**
+ * Supervises that data and valid fixes arrive and counts the received sentences and errors
+ */
+export class Watchdog {
+    public checksumErrors = 0;
+    public parseErrors = 0;
+    public reconnects = 0;
+    private lastData = 0;
+    private lastFix = 0;
+    private sentences = 0;
+    private rateStart: number;
+    private rate = 0;
+
+    constructor(
+        private readonly options: WatchdogOptions,
+        now: number = Date.now(),
+    ) {
+        this.rateStart = now;
+    }
+
+    /** Any data was received, also incomplete or invalid */
+    dataReceived(now: number = Date.now()): void {
+        this.lastData = now;
+    }
+
+    /** A complete sentence, UBX message or gpsd report was received */
+    sentenceReceived(): void {
+        this.sentences++;
+    }
+
+    /** A valid position was received */
+    fixReceived(now: number = Date.now()): void {
+        this.lastFix = now;
+    }
+
+    status(now: number = Date.now()): WatchdogStatus {
+        if (now - this.rateStart >= RATE_WINDOW) {
+            this.rate = Math.round((this.sentences / (now - this.rateStart)) * 10000) / 10;
+            this.sentences = 0;
+            this.rateStart = now;
+        }
+        return {
+            receiving: !!this.lastData && now - this.lastData < this.options.dataTimeout,
+            fixValid: !!this.lastFix && now - this.lastFix < this.options.fixTimeout,
+            fixAge: this.lastFix ? Math.floor((now - this.lastFix) / 1000) : null,
+            lastFixTime: this.lastFix,
+            sentencesPerSecond: this.rate,
+            checksumErrors: this.checksumErrors,
+            parseErrors: this.parseErrors,
+            reconnects: this.reconnects,
+        };
+    }
+}
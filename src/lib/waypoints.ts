@@ -0,0 +1,145 @@
+import { bearing, distance } from './geo';
+import { zoneId } from './geofence';
+import type { WaypointConfig } from '../types';
+
+export interface Waypoint {
+    /** ID of the channel below "waypoints" */
+    id: string;
+    name: string;
+    lat: number;
+    lon: number;
+    /** added at runtime by message or state, not in the instance configuration */
+    runtime?: boolean;
+}
+
+export interface WaypointInfo {
+    waypoint: Waypoint;
+    /** great-circle distance in metres */
+    distance: number;
+    /** initial bearing in degrees, 0 = north */
+    bearing: number;
+    /** distance of the waypoint from the line of the current course in metres, positive to the right, null without course */
+    crossTrack: number | null;
+    /** estimated time of arrival, null if not approaching */
+    eta: number | null;
+    /** seconds until arrival, null if not approaching */
+    timeToGo: number | null;
+}
+
+// Time constant of the speed smoothing in ms
+const SPEED_SMOOTHING = 30000;
+
+// Below this speed towards the waypoint in km/h no ETA is estimated
+const MIN_APPROACH_SPEED = 1;
+
+// IDs of the states in the channel "waypoints", waypoints cannot have these names
+const RESERVED_IDS = ['list', 'save_current'];
+
+/** Create the channel ID for a waypoint name, the same way as for zones */
+export function waypointId(name: string): string {
+    return zoneId(name);
+}
+
+/**
+ * Validate the waypoints from the instance configuration or from the saved runtime waypoints
+ *
+ * @param configs waypoints as configured in the table
+ * @param onError called for every invalid waypoint
+ * @param runtime mark the waypoints as added at runtime
+ */
+export function parseWaypoints(
+    configs: WaypointConfig[] | undefined,
+    onError: (text: string) => void,
+    runtime?: boolean,
+): Waypoint[] {
+    const waypoints: Waypoint[] = [];
+    for (const config of configs || []) {
+        if (config.enabled === false) {
+            continue;
+        }
+        const name = (config.name || '').trim();
+        const id = waypointId(name);
+        if (!id) {
+            onError('Waypoint without name ignored');
+            continue;
+        }
+        if (RESERVED_IDS.includes(id)) {
+            onError(`Waypoint name "${name}" is reserved`);
+            continue;
+        }
+        if (waypoints.find(waypoint => waypoint.id === id)) {
+            onError(`Waypoint "${name}" is defined twice`);
+            continue;
+        }
+        const lat = parseFloat(config.latitude as string);
+        const lon = parseFloat(config.longitude as string);
+        if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+            onError(`Waypoint "${name}" has no valid position`);
+            continue;
+        }
+        waypoints.push(runtime ? { id, name, lat, lon, runtime } : { id, name, lat, lon });
+    }
+    return waypoints;
+}
+
+/**
+ * Calculates distance, bearing, cross-track deviation and ETA from the current position to all waypoints.
+ * The ETA uses the speed made good towards the waypoint, based on a smoothed speed.
+ */
+export class WaypointNavigator {
+    private speed: number | null = null;
+    private speedTs = 0;
+
+    constructor(public waypoints: Waypoint[]) {}
+
+    get smoothedSpeed(): number {
+        return this.speed || 0;
+    }
+
+    /**
+     * @param ts GPS time of the position
+     * @param course course over ground in degrees, null if unknown
+     * @param speed speed over ground in km/h
+     */
+    update(ts: number, lat: number, lon: number, course: number | null, speed: number): WaypointInfo[] {
+        this.smoothSpeed(ts, speed);
+        return this.waypoints.map(waypoint => this.calculate(waypoint, ts, lat, lon, course));
+    }
+
+    private smoothSpeed(ts: number, speed: number): void {
+        if (this.speed === null) {
+            this.speed = speed;
+        } else if (ts <= this.speedTs) {
+            // further sentences of the same epoch
+            return;
+        } else {
+            const alpha = 1 - Math.exp(-(ts - this.speedTs) / SPEED_SMOOTHING);
+            this.speed += alpha * (speed - this.speed);
+        }
+        this.speedTs = ts;
+    }
+
+    private calculate(waypoint: Waypoint, ts: number, lat: number, lon: number, course: number | null): WaypointInfo {
+        const dist = distance(lat, lon, waypoint.lat, waypoint.lon);
+        const brg = bearing(lat, lon, waypoint.lat, waypoint.lon);
+        let crossTrack: number | null = null;
+        let timeToGo: number | null = null;
+        if (course !== null) {
+            // angle between the course and the direction to the waypoint, -180..180
+            const angle = (((brg - course + 540) % 360) - 180) * (Math.PI / 180);
+            crossTrack = dist * Math.sin(angle);
+            const approachSpeed = this.smoothedSpeed * Math.cos(angle);
+            if (approachSpeed >= MIN_APPROACH_SPEED) {
+                timeToGo = dist / (approachSpeed / 3.6);
+            }
+        }
+        return {
+            waypoint,
+            distance: dist,
+            bearing: brg,
+            crossTrack,
+            eta: timeToGo === null ? null : ts + timeToGo * 1000,
+            timeToGo,
+        };
+    }
+}
@@ -1,7 +1,78 @@
 import { type Socket, createSocket } from 'node:dgram';
+import { readFile } from 'node:fs/promises';
+import { type Socket as TcpSocket, createConnection } from 'node:net';
+import { isAbsolute } from 'node:path';
 import { SerialPort } from 'serialport';
 import { Adapter, type AdapterOptions } from '@iobroker/adapter-core'; // Get common adapter utils
 import type { SerialGpsAdapterConfig } from './types';
+import { Geofences, parseZones } from './lib/geofence';
+import { TRACK_FORMATS, type TrackFormat, formatTrack, parseTrack, trackFormatOfFile } from './lib/track';
+import { TRACK_DIR, TrackRecorder } from './lib/trackRecorder';
+import { type Trip, TripComputer } from './lib/tripComputer';
+import { type SkySummary, SkyView, summarizeSky } from './lib/sky';
+import { NmeaServer, parseSentenceList } from './lib/nmeaServer';
+import { CAPTURE_DIR, NmeaCapture } from './lib/nmeaCapture';
+import { AIS_NAV_STATUS, AisDecoder, type AisReport } from './lib/ais';
+import { AnchorWatch, parseAnchorOffset } from './lib/anchor';
+import { NTRIP_DEFAULT_PORT, NtripClient, ggaSentence } from './lib/ntrip';
+import {
+    SerialDeviceWatcher,
+    type SerialPortInfo,
+    describePort,
+    findPortByIdentity,
+    usbIdentity,
+} from './lib/serialDevices';
+import {
+    INSTRUMENT_SENTENCES,
+    INSTRUMENT_STATES,
+    type InstrumentReading,
+    parseInstrumentSentence,
+    trueWind,
+} from './lib/instruments';
+import { bearing, distance } from './lib/geo';
+import { sunPosition, sunTimes } from './lib/astro';
+import { type Waypoint, type WaypointInfo, WaypointNavigator, parseWaypoints, waypointId } from './lib/waypoints';
+import { formatUtm, toDms, toGeohash, toMaidenhead, toMgrs, toUtm } from './lib/coordinates';
+import { Watchdog, type WatchdogStatus } from './lib/watchdog';
+import { PositionFilter } from './lib/positionFilter';
+import { ReplayPlayer, parseNmeaLog, trackToNmea } from './lib/replay';
+import { type PublishRule, PublishPolicy } from './lib/publishPolicy';
+import { FixEpoch, type GpsFix } from './lib/fixEpoch';
+import {
+    type CommandResult,
+    RECEIVER_TYPES,
+    type ReceiverCommand,
+    ReceiverControl,
+    type ReceiverType,
+    type RestartMode,
+    baudRateCommands,
+    restartCommands,
+    sentenceCommands,
+    updateRateCommands,
+} from './lib/receiver';
+import {
+    UBX_NAV_PVT,
+    UBX_NAV_SAT,
+    UBX_NAV_STATUS,
+    UBX_NAV_TIMEGPS,
+    UbxNmeaFramer,
+    parseNavPvt,
+    parseNavSat,
+    parseNavStatus,
+    parseNavTimeGps,
+    ubxFixQuality,
+} from './lib/ubx';
+import {
+    GPSD_DEFAULT_PORT,
+    GPSD_WATCH,
+    type GpsdSky,
+    type GpsdToff,
+    type GpsdTpv,
+    gpsdFixQuality,
+    gpsdSatellites,
+    gpsdTimeOffset,
+    parseGpsdReport,
+} from './lib/gpsd';
 
 function verifyChecksum(sentence: string): boolean {
     const asterisk = sentence.indexOf('*');
@@ -82,25 +153,237 @@ function parseNmeaDateTime(timeStr?: string, dateStr?: string): number | null {
     return Date.UTC(year, month, day, hh, mm, ss, ms);
 }
 
+/** UTC date as ddmmyy like in RMC */
+function formatNmeaDate(ts: number): string {
+    const date = new Date(ts);
+    return `${date.getUTCDate().toString().padStart(2, '0')}${(date.getUTCMonth() + 1).toString().padStart(2, '0')}${(date.getUTCFullYear() % 100).toString().padStart(2, '0')}`;
+}
+
+/** Fix quality like in GGA for the mode indicators of GNS */
+const GNS_FIX_QUALITY: Record<string, number> = { A: 1, D: 2, P: 3, R: 4, F: 5, E: 6, M: 7, S: 8 };
+
+// Recorded points are written to the track file in this interval
+const TRACK_FLUSH_INTERVAL = 60000;
+
+// Without datagrams for this time the UDP source is reported as disconnected
+const UDP_IDLE_TIMEOUT = 10000;
+
+// Byte counters of the NMEA server are published in this interval
+const SERVER_STATS_INTERVAL = 10000;
+
+// NMEA sentences with the same content as received UBX messages are ignored for this time after the last UBX message
+const UBX_PREFERENCE_TIMEOUT = 5000;
+
+// Sentences that are replaced by UBX NAV-PVT
+const UBX_PVT_SENTENCES = ['GGA', 'RMC', 'GNS', 'GLL', 'VTG', 'ZDA'];
+
+// Captured lines are written to the file in this interval
+const CAPTURE_FLUSH_INTERVAL = 10000;
+// Smallest capture file size in KB, so that there are not several files per second
+const CAPTURE_MIN_FILE_SIZE = 64;
+
+// The watchdog checks the timeouts in this interval
+const WATCHDOG_INTERVAL = 1000;
+// gps.fix is written if no data of the current epoch came for this time in ms
+const FIX_EPOCH_TIMEOUT = 1500;
+// Position states that are marked with a quality code when the fix is lost
+const STALE_STATES = [
+    'gps.latitude',
+    'gps.longitude',
+    'gps.position',
+    'gps.latlon',
+    'gps.altitude',
+    'gps.speed_kmh',
+    'gps.speed_knots',
+    'gps.course',
+];
+const QUALITY_NOT_CONNECTED: ioBroker.STATE_QUALITY['DEVICE_NOT_CONNECTED'] = 0x42;
+const QUALITY_DEVICE_ERROR: ioBroker.STATE_QUALITY['DEVICE_ERROR_REPORT'] = 0x44;
+
+// Expired AIS vessels are deleted in this interval
+const AIS_EXPIRE_INTERVAL = 60000;
+// States of a vessel channel, the key of the report that fills it or null if calculated
+const AIS_VESSEL_STATES: Record<string, { key: keyof AisReport | null; common: Partial<ioBroker.StateCommon> }> = {
+    name: { key: 'name', common: { name: 'Name', type: 'string', role: 'text' } },
+    callsign: { key: 'callsign', common: { name: 'Call sign', type: 'string', role: 'text' } },
+    imo: { key: 'imo', common: { name: 'IMO number', type: 'number', role: 'value' } },
+    class: {
+        key: 'class',
+        common: {
+            name: 'AIS class',
+            type: 'string',
+            role: 'text',
+            states: { A: 'Class A', B: 'Class B', base: 'Base station' },
+        },
+    },
+    ship_type: { key: 'shipType', common: { name: 'Ship type', type: 'number', role: 'value' } },
+    length: { key: 'length', common: { name: 'Length', type: 'number', role: 'value', unit: 'm' } },
+    beam: { key: 'beam', common: { name: 'Beam', type: 'number', role: 'value', unit: 'm' } },
+    draught: { key: 'draught', common: { name: 'Draught', type: 'number', role: 'value', unit: 'm' } },
+    destination: { key: 'destination', common: { name: 'Destination', type: 'string', role: 'text' } },
+    nav_status: {
+        key: 'navStatus',
+        common: { name: 'Navigational status', type: 'number', role: 'value', states: AIS_NAV_STATUS },
+    },
+    latitude: {
+        key: 'lat',
+        common: { name: 'Latitude', type: 'number', role: 'value.gps.latitude', unit: '°' },
+    },
+    longitude: {
+        key: 'lon',
+        common: { name: 'Longitude', type: 'number', role: 'value.gps.longitude', unit: '°' },
+    },
+    sog: { key: 'sog', common: { name: 'Speed over ground', type: 'number', role: 'value.speed', unit: 'kn' } },
+    cog: { key: 'cog', common: { name: 'Course over ground', type: 'number', role: 'value.direction', unit: '°' } },
+    heading: { key: 'heading', common: { name: 'True heading', type: 'number', role: 'value.direction', unit: '°' } },
+    distance: { key: null, common: { name: 'Distance', type: 'number', role: 'value.distance', unit: 'm' } },
+    bearing: { key: null, common: { name: 'Bearing', type: 'number', role: 'value.direction', unit: '°' } },
+    last_seen: { key: null, common: { name: 'Last seen', type: 'number', role: 'date' } },
+};
+
+// The true wind is not calculated for this time after the instruments sent it, and a true heading is used for this time
+const INSTRUMENT_TIMEOUT = 5000;
+
+// Baud rates tried by the detection and the auto-probe
+const BAUD_RATES = [4800, 9600, 19200, 38400, 57600, 115200];
+// The serial ports are listed in this interval to notice plugged in and removed devices
+const HOTPLUG_INTERVAL = 5000;
+
+// NTRIP states are updated and the GGA is checked in this interval
+const NTRIP_INTERVAL = 1000;
+// Values of gps.rtk_status by fix quality
+const RTK_STATUS: Record<number, string> = { 4: 'fixed', 5: 'float' };
+
+// Highest playback speed of the replay
+const REPLAY_MAX_SPEED = 100;
+
 export class SerialGpsAdapter extends Adapter {
     declare config: SerialGpsAdapterConfig;
     private serialPort?: SerialPort;
+    /** path of the serial port in use, resolved from the USB identity or found by the auto-probe */
+    private serialPath = '';
+    /** port found by the auto-probe, used instead of the configured one until it cannot be opened */
+    private probedPath = '';
+    private probing = false;
+    private serialDeviceWatcher = new SerialDeviceWatcher();
+    private hotplugTimer: ReturnType<typeof setInterval> | null = null;
     private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
     private lastStates = new Map<string, { val: any; ts: number }>();
+    private publishPolicy = new PublishPolicy();
+    /** data of the sentences of the current epoch for gps.fix */
+    private fixEpoch = new FixEpoch();
     private recvBuffer = '';
+    private framer = new UbxNmeaFramer();
+    /** time of the last NAV-PVT, then GGA and RMC are ignored */
+    private ubxPvtTime = 0;
+    /** time of the last NAV-SAT, then GSV and the used satellites of GSA are ignored */
+    private ubxSatTime = 0;
     private lastDate = ''; // ddmmyy aus letztem RMC, für GGA Zeitkombination
     private udpServer?: Socket;
+    private udpIdleTimer: ReturnType<typeof setTimeout> | null = null;
+    private tcpClient?: TcpSocket;
+    private stopping = false;
+    private skyView = new SkyView();
+    /** GPS time of the last received fix */
+    private fixTimestamp = 0;
+    private altitude?: number;
+    private trackRecorder?: TrackRecorder;
+    private trackRecording = false;
+    private trackFlushTimer: ReturnType<typeof setInterval> | null = null;
+    /** speed over ground from RMC or gpsd */
+    private speedKmh = 0;
+    /** course over ground, null as long as none was received */
+    private course: number | null = null;
+    /** last valid position */
+    private lastPosition: { lat: number; lon: number } | null = null;
+    private tripComputer?: TripComputer;
+    /** fix quality from GGA or gpsd, null as long as only RMC was received */
+    private fixQuality: number | null = null;
+    private hdop = 0;
+    private geofences?: Geofences;
+    private positionFilter?: PositionFilter;
+    private nmeaServer?: NmeaServer;
+    private nmeaServerTimer: ReturnType<typeof setInterval> | null = null;
+    private receiverControl?: ReceiverControl;
+    private replayPlayer?: ReplayPlayer;
+    private nmeaCapture?: NmeaCapture;
+    private capturing = false;
+    private captureFlushTimer: ReturnType<typeof setInterval> | null = null;
+    private watchdog?: Watchdog;
+    private watchdogTimer: ReturnType<typeof setInterval> | null = null;
+    /** result of the last watchdog check */
+    private watchdogStatus: WatchdogStatus | null = null;
+    /** location in system.config, null if the synchronization is disabled */
+    private systemLocation: { lat: number; lon: number } | null = null;
+    private systemLocationWriting = false;
+    private waypointNavigator = new WaypointNavigator([]);
+    /** ID of the active destination, empty if none */
+    private destination = '';
+    private destinationArriving = false;
+    private destinationArrived = false;
+    private anchorWatch?: AnchorWatch;
+    private aisDecoder?: AisDecoder;
+    /** known vessels by MMSI with the merged data of all their messages */
+    private aisVessels = new Map<number, { report: AisReport; lastSeen: number }>();
+    private aisExpireTimer: ReturnType<typeof setInterval> | null = null;
+    private ntripClient?: NtripClient;
+    private ntripTimer: ReturnType<typeof setInterval> | null = null;
+    /** time when the last GGA was sent to the caster */
+    private ntripGgaTime = 0;
+    /** IDs of the instrument states that were created, states are only created for received sentences */
+    private instrumentStates = new Set<string>();
+    /** last true heading from HDT, THS or HDG with variation */
+    private headingTrue: { value: number; ts: number } | null = null;
+    /** time when the instruments sent the true wind */
+    private trueWindTime = 0;
 
     public constructor(options: Partial<AdapterOptions> = {}) {
         super({
             ...options,
             name: 'serial-gps',
             unload: async callback => {
+                this.stopping = true;
                 if (this.reconnectTimer) {
                     clearTimeout(this.reconnectTimer);
                     this.reconnectTimer = null;
                 }
+                if (this.trackFlushTimer) {
+                    clearInterval(this.trackFlushTimer);
+                    this.trackFlushTimer = null;
+                }
+                if (this.nmeaServerTimer) {
+                    clearInterval(this.nmeaServerTimer);
+                    this.nmeaServerTimer = null;
+                }
+                if (this.captureFlushTimer) {
+                    clearInterval(this.captureFlushTimer);
+                    this.captureFlushTimer = null;
+                }
+                if (this.watchdogTimer) {
+                    clearInterval(this.watchdogTimer);
+                    this.watchdogTimer = null;
+                }
+                if (this.aisExpireTimer) {
+                    clearInterval(this.aisExpireTimer);
+                    this.aisExpireTimer = null;
+                }
+                if (this.ntripTimer) {
+                    clearInterval(this.ntripTimer);
+                    this.ntripTimer = null;
+                }
+                if (this.hotplugTimer) {
+                    clearInterval(this.hotplugTimer);
+                    this.hotplugTimer = null;
+                }
+                this.ntripClient?.stop();
+                await this.nmeaCapture
+                    ?.flush()
+                    .catch(e => this.log.warn(`Cannot write capture file: ${e.message || e}`));
+                await this.trackRecorder?.flush().catch(e => this.log.warn(`Cannot write track: ${e.message || e}`));
+                await this.nmeaServer?.stop();
+                this.replayPlayer?.stop();
                 await this.closeUdpServer();
+                this.closeTcpClient();
                 await this.closePort();
                 callback();
             },
@@ -118,8 +401,12 @@ export class SerialGpsAdapter extends Adapter {
                                         obj.from,
                                         obj.command,
                                         ports.map(item => ({
-                                            label: item.path,
+                                            label: describePort(item),
                                             value: item.path,
+                                            vendorId: item.vendorId,
+                                            productId: item.productId,
+                                            serialNumber: item.serialNumber,
+                                            manufacturer: item.manufacturer,
                                         })),
                                         obj.callback,
                                     );
@@ -136,6 +423,33 @@ export class SerialGpsAdapter extends Adapter {
 
                             break;
 
+                        case 'listUsb':
+                            if (obj.callback) {
+                                // USB devices to pin the receiver, independent of the path
+                                const ports = await this.listSerialPorts();
+                                const options = [{ label: 'Use the serial port', value: '' }];
+                                for (const port of ports) {
+                                    const identity = usbIdentity(port);
+                                    if (identity) {
+                                        options.push({
+                                            label: `${identity} - ${port.manufacturer || ''} (${port.path})`,
+                                            value: identity,
+                                        });
+                                    }
+                                }
+                                if (
+                                    this.config.serialUsbId &&
+                                    !options.find(item => item.value === this.config.serialUsbId)
+                                ) {
+                                    options.push({
+                                        label: `${this.config.serialUsbId} - not connected`,
+                                        value: this.config.serialUsbId,
+                                    });
+                                }
+                                this.sendTo(obj.from, obj.command, options, obj.callback);
+                            }
+                            break;
+
                         case 'detectBaudRate':
                             if (obj.callback) {
                                 try {
@@ -185,16 +499,223 @@ export class SerialGpsAdapter extends Adapter {
                                 }
                             }
                             break;
+
+                        case 'getTrack':
+                            if (obj.callback) {
+                                if (!this.trackRecorder) {
+                                    this.sendTo(
+                                        obj.from,
+                                        obj.command,
+                                        { error: 'Track recording is disabled' },
+                                        obj.callback,
+                                    );
+                                    break;
+                                }
+                                try {
+                                    const message = obj.message || {};
+                                    const to = SerialGpsAdapter.parseTime(message.to, Date.now());
+                                    const from = SerialGpsAdapter.parseTime(message.from, to - 24 * 3600000);
+                                    const format: TrackFormat = TRACK_FORMATS.includes(message.format)
+                                        ? message.format
+                                        : 'gpx';
+                                    const track = await this.trackRecorder.getTrack(from, to);
+                                    this.sendTo(
+                                        obj.from,
+                                        obj.command,
+                                        {
+                                            result: formatTrack(track, format),
+                                            format,
+                                            points: track.segments.reduce((sum, segment) => sum + segment.length, 0),
+                                        },
+                                        obj.callback,
+                                    );
+                                } catch (e) {
+                                    this.sendTo(
+                                        obj.from,
+                                        obj.command,
+                                        { error: `Cannot read track: ${e.message || e}` },
+                                        obj.callback,
+                                    );
+                                }
+                            }
+                            break;
+
+                        case 'setUpdateRate':
+                        case 'setSentences':
+                        case 'setBaudRate':
+                        case 'restart':
+                            if (obj.callback) {
+                                const message = obj.message || {};
+                                const [setting, value] =
+                                    obj.command === 'setUpdateRate'
+                                        ? (['update_rate', message.rate] as const)
+                                        : obj.command === 'setSentences'
+                                          ? (['sentences', message.sentences] as const)
+                                          : obj.command === 'setBaudRate'
+                                            ? (['baud_rate', message.baudRate] as const)
+                                            : (['restart', message.mode] as const);
+                                try {
+                                    const result = await this.configureReceiver(setting, value);
+                                    this.sendTo(obj.from, obj.command, { result }, obj.callback);
+                                } catch (e) {
+                                    this.sendTo(obj.from, obj.command, { error: e.message || e }, obj.callback);
+                                }
+                            }
+                            break;
+
+                        case 'listTracks':
+                            if (obj.callback) {
+                                if (!this.trackRecorder) {
+                                    this.sendTo(
+                                        obj.from,
+                                        obj.command,
+                                        { error: 'Track recording is disabled' },
+                                        obj.callback,
+                                    );
+                                    break;
+                                }
+                                try {
+                                    await this.trackRecorder.flush();
+                                    const files = await this.trackRecorder.listFiles();
+                                    this.sendTo(
+                                        obj.from,
+                                        obj.command,
+                                        {
+                                            result: files.map(item => ({
+                                                file: `${TRACK_DIR}/${item.file}`,
+                                                size: item.size,
+                                            })),
+                                        },
+                                        obj.callback,
+                                    );
+                                } catch (e) {
+                                    this.sendTo(
+                                        obj.from,
+                                        obj.command,
+                                        { error: `Cannot list tracks: ${e.message || e}` },
+                                        obj.callback,
+                                    );
+                                }
+                            }
+                            break;
+
+                        case 'listWaypoints':
+                            if (obj.callback) {
+                                this.sendTo(
+                                    obj.from,
+                                    obj.command,
+                                    {
+                                        result: this.waypointNavigator.waypoints.map(waypoint => ({
+                                            name: waypoint.name,
+                                            id: waypoint.id,
+                                            lat: waypoint.lat,
+                                            lon: waypoint.lon,
+                                            runtime: !!waypoint.runtime,
+                                        })),
+                                    },
+                                    obj.callback,
+                                );
+                            }
+                            break;
+
+                        case 'addWaypoint':
+                        case 'deleteWaypoint':
+                            try {
+                                const message = obj.message || {};
+                                let result: Waypoint | undefined;
+                                if (obj.command === 'addWaypoint') {
+                                    const lat = message.lat ?? message.latitude;
+                                    const lon = message.lon ?? message.longitude;
+                                    result = await this.addWaypoint(
+                                        String(message.name || ''),
+                                        lat === undefined ? undefined : parseFloat(lat),
+                                        lon === undefined ? undefined : parseFloat(lon),
+                                    );
+                                } else {
+                                    await this.deleteWaypoint(String(message.name || ''));
+                                }
+                                if (obj.callback) {
+                                    this.sendTo(obj.from, obj.command, { result: result || true }, obj.callback);
+                                }
+                            } catch (e) {
+                                if (obj.callback) {
+                                    this.sendTo(obj.from, obj.command, { error: e.message || e }, obj.callback);
+                                }
+                            }
+                            break;
+
+                        case 'listCaptures':
+                            if (obj.callback) {
+                                if (!this.nmeaCapture) {
+                                    this.sendTo(
+                                        obj.from,
+                                        obj.command,
+                                        { error: 'Raw data capture is not available' },
+                                        obj.callback,
+                                    );
+                                    break;
+                                }
+                                try {
+                                    const files = await this.nmeaCapture.listFiles();
+                                    this.sendTo(
+                                        obj.from,
+                                        obj.command,
+                                        {
+                                            result: files.map(item => ({
+                                                file: `${CAPTURE_DIR}/${item.file}`,
+                                                size: item.size,
+                                            })),
+                                        },
+                                        obj.callback,
+                                    );
+                                } catch (e) {
+                                    this.sendTo(
+                                        obj.from,
+                                        obj.command,
+                                        { error: `Cannot list captures: ${e.message || e}` },
+                                        obj.callback,
+                                    );
+                                }
+                            }
+                            break;
+
+                        case 'getCapture':
+                            if (obj.callback) {
+                                if (!this.nmeaCapture) {
+                                    this.sendTo(
+                                        obj.from,
+                                        obj.command,
+                                        { error: 'Raw data capture is not available' },
+                                        obj.callback,
+                                    );
+                                    break;
+                                }
+                                try {
+                                    // the file is accepted with and without directory, like listed by listCaptures
+                                    const file = String(obj.message?.file || '').replace(`${CAPTURE_DIR}/`, '');
+                                    const result = await this.nmeaCapture.readFile(file);
+                                    this.sendTo(obj.from, obj.command, { result }, obj.callback);
+                                } catch (e) {
+                                    this.sendTo(
+                                        obj.from,
+                                        obj.command,
+                                        { error: `Cannot read capture: ${e.message || e}` },
+                                        obj.callback,
+                                    );
+                                }
+                            }
+                            break;
                     }
                 }
             },
+            stateChange: (id, state) => this.onStateChange(id, state),
             ready: () => this.main(),
         });
     }
 
     private async test(port: string, baudRate: string | number): Promise<boolean> {
         let portClosed = false;
-        if (this.config.serialPort === port) {
+        if ((!this.config.source || this.config.source === 'serial') && this.serialPath === port) {
             portClosed = true;
             await this.closePort();
         }
@@ -264,12 +785,11 @@ export class SerialGpsAdapter extends Adapter {
 
     private async detectBaudRate(port: string): Promise<number> {
         let portClosed = false;
-        if (this.config.serialPort === port) {
+        if ((!this.config.source || this.config.source === 'serial') && this.serialPath === port) {
             portClosed = true;
             await this.closePort();
         }
-        const baudRatesToTest = [4800, 9600, 19200, 38400, 57600, 115200];
-        for (const baudRate of baudRatesToTest) {
+        for (const baudRate of BAUD_RATES) {
             this.log.info(`Testing baud rate: ${baudRate}`);
             if (await this.testPort(port, baudRate)) {
                 if (portClosed) {
@@ -286,11 +806,14 @@ export class SerialGpsAdapter extends Adapter {
     }
 
     private closePort(): Promise<void> {
-        if (this.serialPort) {
+        const port = this.serialPort;
+        if (port) {
+            // events of the closed port must not schedule a reconnect
+            this.serialPort = undefined;
             return new Promise(resolve => {
                 try {
-                    if (this.serialPort!.isOpen) {
-                        this.serialPort!.close(err => {
+                    if (port.isOpen) {
+                        port.close(err => {
                             if (err) {
                                 this.log.error(`Error closing serial port: ${err.message || err}`);
                             }
@@ -302,7 +825,6 @@ export class SerialGpsAdapter extends Adapter {
                 } catch (e) {
                     this.log.warn(`Error while closing port: ${(e as Error).message || e}`);
                 }
-                this.serialPort = undefined;
                 resolve();
             });
         }
@@ -311,35 +833,39 @@ export class SerialGpsAdapter extends Adapter {
 
     private async setStateIfChangedAsync(id: string, value: ioBroker.StateValue): Promise<void> {
         const now = Date.now();
-        const prev = this.lastStates.get(id);
-        const changed = !prev || value !== prev.val;
-        if (!changed && prev && now - prev.ts < 60000) {
-            // unchanged and not older than 60s -> skip
+        if (!this.publishPolicy.shouldWrite(id, value, this.lastStates.get(id), now)) {
             return;
         }
+        await this.writeState(id, value, now);
+    }
+
+    /** Write the state without checking the publishing policy */
+    private async writeState(id: string, value: ioBroker.StateValue, now: number = Date.now()): Promise<void> {
         this.lastStates.set(id, { val: value, ts: now });
         await this.setStateAsync(id, value, true);
     }
 
     private async parseData(text: string): Promise<void> {
-        // Split by '$' because some devices send multiple sentences in one chunk (sentences start with $)
+        // Split by '$' and before '!' because some devices send multiple sentences in one chunk.
+        // AIS sentences start with '!', both characters cannot occur in the payload.
         const parts = text
-            .split('$')
+            .split(/\$|(?=!)/)
             .map(p => p.trim())
             .filter(p => p.length > 0);
 
         for (const raw of parts) {
-            const sentence = raw.startsWith('$') ? raw : `$${raw}`;
+            // sentences without leading '$' are accepted too
+            const sentence = raw.startsWith('!') ? raw : `$${raw}`;
             // remove any trailing characters beyond checksum
             const s = sentence.replace(/\r?\n/g, '').trim();
-            if (!s.startsWith('$')) {
-                continue;
-            }
-            const body = s.slice(1); // without leading $
+            const body = s.slice(1); // without leading $ or !
             if (!verifyChecksum(body)) {
-                this.log.warn(`NMEA checksum mismatch: ${s}`);
+                // counted in stats.checksum_errors, a bad link would flood the log
+                this.watchdog!.checksumErrors++;
+                this.log.debug(`NMEA checksum mismatch: ${s}`);
                 continue;
             }
+            this.watchdog!.sentenceReceived();
 
             if (this.common?.loglevel === 'debug') {
                 console.log(body);
@@ -352,9 +878,26 @@ export class SerialGpsAdapter extends Adapter {
             const fields = payload.split(',');
             const type = fields[0];
 
+            this.nmeaServer?.forward(s, type);
+
+            if (s.startsWith('!')) {
+                if (type.endsWith('VDM') || type.endsWith('VDO')) {
+                    await this.handleAisSentence(fields);
+                }
+                continue;
+            }
+
+            const now = Date.now();
+            const ubxPvt = now - this.ubxPvtTime < UBX_PREFERENCE_TIMEOUT;
+            const ubxSat = now - this.ubxSatTime < UBX_PREFERENCE_TIMEOUT;
+            if ((ubxPvt && UBX_PVT_SENTENCES.includes(type.slice(-3))) || (ubxSat && type.endsWith('GSV'))) {
+                // the receiver sends the same data more exact as UBX
+                continue;
+            }
+
             try {
                 if (type.endsWith('GGA')) {
-                    // $--GGA,time,lat,NS,lon,EW,fix,numSat,hdop,alt,altUnit,...
+                    // $--GGA,time,lat,NS,lon,EW,fix,numSat,hdop,alt,altUnit,geoidSep,sepUnit,...
                     const timeStr = fields[1];
                     const lat = nmeaToDecimal(fields[2], fields[3]);
                     const lon = nmeaToDecimal(fields[4], fields[5]);
@@ -365,25 +908,137 @@ export class SerialGpsAdapter extends Adapter {
                     if (timeStr) {
                         const ts = parseNmeaDateTime(timeStr, this.lastDate || undefined);
                         if (ts !== null) {
+                            this.fixTimestamp = ts;
                             await this.setStateIfChangedAsync('gps.timestamp', ts);
                         }
                     }
+                    this.fixQuality = fix;
+                    this.hdop = hdop;
+                    this.altitude = fields[9] ? alt : undefined;
                     if (!isNaN(fix)) {
-                        await this.setStateIfChangedAsync('gps.fix_quality', fix);
+                        await this.publishFixQuality(fix);
                     }
                     if (lat !== null && lon !== null) {
-                        await this.setStateIfChangedAsync('gps.latitude', lat);
-                        await this.setStateIfChangedAsync('gps.longitude', lon);
-                        await this.setStateIfChangedAsync('gps.position', `${lon};${lat}`);
-                        await this.setStateIfChangedAsync('gps.latlon', `${lat};${lon}`);
+                        await this.publishPosition(lat, lon, fix > 0);
                         this.log.debug(`GGA parsed: lat=${lat}, lon=${lon}`);
                     }
                     await this.setStateIfChangedAsync('gps.satellites', sats);
                     await this.setStateIfChangedAsync('gps.hdop', hdop);
-                    await this.setStateIfChangedAsync('gps.altitude', alt);
-
-                    const connected = fix > 0;
-                    await this.setStateIfChangedAsync('info.connection', connected);
+                    await this.publishAltitude(alt, fields[9] && fields[11] ? parseFloat(fields[11]) : undefined);
+                    await this.mergeFix({ quality: fix, satellites: sats, hdop, alt: this.altitude });
+                } else if (type.endsWith('GNS')) {
+                    // $--GNS,time,lat,NS,lon,EW,modes,numSat,hdop,alt,geoidSep,age,station,navStatus
+                    // one mode character per constellation (GPS, GLONASS, Galileo, BeiDou, ...)
+                    const mode = [...(fields[6] || '')].find(item => item !== 'N') || 'N';
+                    const lat = nmeaToDecimal(fields[2], fields[3]);
+                    const lon = nmeaToDecimal(fields[4], fields[5]);
+                    const fix = GNS_FIX_QUALITY[mode] ?? 0;
+                    const hdop = parseFloat(fields[8]) || 0;
+                    const alt = parseFloat(fields[9]) || 0;
+                    const ts = parseNmeaDateTime(fields[1], this.lastDate || undefined);
+                    if (ts !== null) {
+                        this.fixTimestamp = ts;
+                        await this.setStateIfChangedAsync('gps.timestamp', ts);
+                    }
+                    this.fixQuality = fix;
+                    this.hdop = hdop;
+                    this.altitude = fields[9] ? alt : undefined;
+                    await this.publishFixQuality(fix);
+                    if (lat !== null && lon !== null) {
+                        await this.publishPosition(lat, lon, fix > 0 && fields[13] !== 'V');
+                        this.log.debug(`GNS parsed: lat=${lat}, lon=${lon}`);
+                    }
+                    const sats = parseInt(fields[7], 10) || 0;
+                    await this.setStateIfChangedAsync('gps.satellites', sats);
+                    await this.setStateIfChangedAsync('gps.hdop', hdop);
+                    if (fields[9]) {
+                        await this.publishAltitude(alt, fields[10] ? parseFloat(fields[10]) : undefined);
+                    }
+                    await this.mergeFix({ quality: fix, satellites: sats, hdop, alt: this.altitude });
+                } else if (type.endsWith('GLL')) {
+                    // $--GLL,lat,NS,lon,EW,time,status,mode
+                    const lat = nmeaToDecimal(fields[1], fields[2]);
+                    const lon = nmeaToDecimal(fields[3], fields[4]);
+                    const ts = parseNmeaDateTime(fields[5], this.lastDate || undefined);
+                    if (ts !== null) {
+                        this.fixTimestamp = ts;
+                        await this.setStateIfChangedAsync('gps.timestamp', ts);
+                    }
+                    if (lat !== null && lon !== null) {
+                        await this.publishPosition(lat, lon, fields[6] === 'A' && fields[7] !== 'N');
+                        this.log.debug(`GLL parsed: lat=${lat}, lon=${lon}`);
+                    }
+                } else if (type.endsWith('VTG')) {
+                    // $--VTG,courseTrue,T,courseMagnetic,M,speedKnots,N,speedKmh,K,mode
+                    if (fields[9] === 'N') {
+                        continue;
+                    }
+                    if (fields[1]) {
+                        this.course = parseFloat(fields[1]) || 0;
+                        await this.setStateIfChangedAsync('gps.course', this.course);
+                    }
+                    if (fields[3]) {
+                        await this.setStateIfChangedAsync('gps.course_magnetic', parseFloat(fields[3]) || 0);
+                    }
+                    if (fields[5] || fields[7]) {
+                        const speedKnots = parseFloat(fields[5]) || 0;
+                        const speedKmh = fields[7] ? parseFloat(fields[7]) || 0 : +(speedKnots * 1.852).toFixed(2);
+                        this.speedKmh = speedKmh;
+                        await this.setStateIfChangedAsync('gps.speed_knots', speedKnots);
+                        await this.setStateIfChangedAsync('gps.speed_kmh', speedKmh);
+                    }
+                    await this.mergeFix({
+                        course: fields[1] ? parseFloat(fields[1]) || 0 : undefined,
+                        speed: fields[5] || fields[7] ? this.speedKmh : undefined,
+                    });
+                } else if (type.endsWith('ZDA')) {
+                    // $--ZDA,time,day,month,year,zoneHours,zoneMinutes
+                    const [, timeStr, day, month, year] = fields;
+                    if (timeStr && day && month && year?.length === 4) {
+                        // the date of ZDA is needed for GGA, GNS and GLL if the receiver sends no RMC
+                        const dateStr = `${day.padStart(2, '0')}${month.padStart(2, '0')}${year.slice(2)}`;
+                        this.lastDate = dateStr;
+                        await this.setStateIfChangedAsync('gps.date', dateStr);
+                        const ts = parseNmeaDateTime(timeStr, dateStr);
+                        if (ts !== null) {
+                            this.fixTimestamp = ts;
+                            await this.setStateIfChangedAsync('gps.timestamp', ts);
+                        }
+                    }
+                    if (fields[5]) {
+                        // the minutes have the sign of the hours, also for "-00"
+                        const hours = parseInt(fields[5], 10) || 0;
+                        const minutes = parseInt(fields[6], 10) || 0;
+                        await this.setStateIfChangedAsync(
+                            'gps.timezone_offset',
+                            hours * 60 + (fields[5].startsWith('-') ? -minutes : minutes),
+                        );
+                    }
+                } else if (type.endsWith('GST')) {
+                    // $--GST,time,rms,semiMajor,semiMinor,orientation,sdLat,sdLon,sdAlt - standard deviations in m
+                    const sdLat = parseFloat(fields[6]);
+                    const sdLon = parseFloat(fields[7]);
+                    const sdAlt = parseFloat(fields[8]);
+                    if (!isNaN(sdLat) && !isNaN(sdLon)) {
+                        await this.setStateIfChangedAsync('gps.accuracy_lat', sdLat);
+                        await this.setStateIfChangedAsync('gps.accuracy_lon', sdLon);
+                        // NAV-PVT delivers the horizontal and vertical accuracy itself
+                        if (!ubxPvt) {
+                            await this.setStateIfChangedAsync(
+                                'gps.accuracy_horizontal',
+                                Math.round(Math.sqrt(sdLat * sdLat + sdLon * sdLon) * 1000) / 1000,
+                            );
+                        }
+                    }
+                    if (!isNaN(sdAlt) && !ubxPvt) {
+                        await this.setStateIfChangedAsync('gps.accuracy_alt', sdAlt);
+                    }
+                } else if (type.endsWith('HDT') || type.endsWith('THS')) {
+                    // $--HDT,heading,T or $--THS,heading,mode - true heading of the vessel, not the course
+                    if (fields[1] && !(type.endsWith('THS') && fields[2] === 'V')) {
+                        this.headingTrue = { value: parseFloat(fields[1]) || 0, ts: Date.now() };
+                        await this.setStateIfChangedAsync('gps.heading_true', this.headingTrue.value);
+                    }
                 } else if (type.endsWith('RMC')) {
                     // $--RMC,time,status,lat,NS,lon,EW,sog,cog,date,...
                     const timeStr = fields[1];
@@ -402,23 +1057,23 @@ export class SerialGpsAdapter extends Adapter {
                     // timestamp (Zeit + Datum)
                     const ts = parseNmeaDateTime(timeStr, dateStr);
                     if (ts !== null) {
+                        this.fixTimestamp = ts;
                         await this.setStateIfChangedAsync('gps.timestamp', ts);
                     }
+                    // convert knots to km/h
+                    const speedKmh = +(speedKnots * 1.852).toFixed(2);
+                    this.speedKmh = speedKmh;
+                    if (fields[8]) {
+                        this.course = course;
+                    }
                     if (lat !== null && lon !== null) {
-                        await this.setStateIfChangedAsync('gps.latitude', lat);
-                        await this.setStateIfChangedAsync('gps.longitude', lon);
-                        await this.setStateIfChangedAsync('gps.position', `${lon};${lat}`);
-                        await this.setStateIfChangedAsync('gps.latlon', `${lat};${lon}`);
+                        await this.publishPosition(lat, lon, status !== 'V');
                         this.log.debug(`RMC parsed: lat=${lat}, lon=${lon}`);
                     }
-                    // convert knots to km/h
-                    const speedKmh = +(speedKnots * 1.852).toFixed(2);
                     await this.setStateIfChangedAsync('gps.speed_knots', speedKnots);
                     await this.setStateIfChangedAsync('gps.speed_kmh', speedKmh);
                     await this.setStateIfChangedAsync('gps.course', course);
-
-                    const connected = status === 'A';
-                    await this.setStateIfChangedAsync('info.connection', connected);
+                    await this.mergeFix({ speed: speedKmh, course: fields[8] ? course : undefined });
                 } else if (type.endsWith('GSA')) {
                     // $--GSA,mode,fixType,SV1,...,SV12,pdop,hdop,vdop
                     const fixMode = fields[2] || '';
@@ -429,111 +1084,2213 @@ export class SerialGpsAdapter extends Adapter {
                     // fix_mode: '2' -> "2D", '3' -> "3D", sonst original
                     const fixModeLabel = fixMode === '2' ? '2D' : fixMode === '3' ? '3D' : fixMode;
 
-                    await this.setStateIfChangedAsync('gps.fix_mode', fixModeLabel);
+                    if (!ubxPvt) {
+                        await this.setStateIfChangedAsync('gps.fix_mode', fixModeLabel);
+                    }
                     await this.setStateIfChangedAsync('gps.pdop', pdop);
                     // hdop wird ggf. bereits durch GGA gesetzt; trotzdem aktualisieren ist ok
+                    this.hdop = hdop;
                     await this.setStateIfChangedAsync('gps.hdop', hdop);
                     await this.setStateIfChangedAsync('gps.vdop', vdop);
+                    await this.mergeFix({ mode: ubxPvt ? undefined : fixModeLabel, pdop, hdop, vdop });
+
+                    if (!ubxSat) {
+                        this.skyView.addGsa(type.slice(0, 2), fields);
+                        await this.setStateIfChangedAsync('satellites.used', this.skyView.getUsedCount());
+                    }
+                } else if (type.endsWith('GSV')) {
+                    // $--GSV,numMsg,msgNum,numSV,{PRN,elev,az,snr}*1..4 - multi-part, published once complete
+                    if (this.skyView.addGsv(type.slice(0, 2), fields)) {
+                        await this.publishSkyView();
+                    }
+                } else if (INSTRUMENT_SENTENCES.includes(type.slice(-3))) {
+                    // depth, wind, water temperature and heading from marine instruments
+                    await this.handleInstrumentSentence(type.slice(-3), fields);
                 } else {
                     // other sentence types can be handled if needed
                     this.log.silly(`Unhandled NMEA sentence: ${type}`);
                 }
             } catch (e) {
+                this.watchdog!.parseErrors++;
                 this.log.error(`Error parsing NMEA sentence ${s}: ${(e as Error).message}`);
             }
         }
     }
 
-    private async processReceivedData(data: Buffer): Promise<void> {
-        const chunk = data.toString('utf8');
-        this.recvBuffer += chunk;
+    /** Write the GGA fix quality and the RTK status derived from it */
+    private async publishFixQuality(quality: number): Promise<void> {
+        await this.setStateIfChangedAsync('gps.fix_quality', quality);
+        await this.setStateIfChangedAsync('gps.rtk_status', RTK_STATUS[quality] || 'none');
+    }
 
-        let idx = this.recvBuffer.indexOf('\n');
-        // process complete lines only (lines end with `\n`)
-        while (idx !== -1) {
-            const line = this.recvBuffer.slice(0, idx + 1); // include newline
-            this.recvBuffer = this.recvBuffer.slice(idx + 1);
-            try {
-                await this.parseData(line);
-            } catch (e) {
-                this.log.error(`Error processing serial data: ${(e as Error).message || e}`);
-            }
-            idx = this.recvBuffer.indexOf('\n');
+    /**
+     * Write the altitude above mean sea level and, if the geoid separation is known, the height above the ellipsoid
+     *
+     * @param msl altitude above mean sea level in m
+     * @param separation geoid separation in m (ellipsoid height - MSL altitude)
+     */
+    private async publishAltitude(msl: number, separation: number | undefined): Promise<void> {
+        await this.setStateIfChangedAsync('gps.altitude', msl);
+        if (separation !== undefined && !isNaN(separation)) {
+            await this.setStateIfChangedAsync('gps.geoid_separation', separation);
+            await this.setStateIfChangedAsync('gps.altitude_ellipsoid', Math.round((msl + separation) * 1000) / 1000);
         }
     }
 
-    private async openPort(): Promise<void> {
-        // Close existing port if open
-        await this.closePort();
-
-        try {
-            this.serialPort = new SerialPort({
-                path: this.config.serialPort,
-                baudRate: parseInt(this.config.baudRate as string, 10) || 9600,
-                autoOpen: false,
-            });
-
-            this.serialPort.open(err => {
-                if (err) {
-                    this.log.error(`Failed to open serial port ${this.config.serialPort}: ${err.message || err}`);
-                    return;
-                }
-                this.log.info(`Serial port opened: ${this.config.serialPort} @ ${this.config.baudRate}`);
-            });
-
-            this.serialPort.on('data', async (data: Buffer): Promise<void> => {
-                if (this.reconnectTimer) {
-                    clearTimeout(this.reconnectTimer);
-                    this.reconnectTimer = null;
-                }
-                await this.processReceivedData(data);
+    /**
+     * Write a new position and pass it to the subsystems that work with the position
+     *
+     * @param lat latitude in degrees
+     * @param lon longitude in degrees
+     * @param valid false if the receiver marks the position as void
+     */
+    private async publishPosition(lat: number, lon: number, valid: boolean): Promise<void> {
+        if (valid) {
+            this.watchdog!.fixReceived();
+        }
+        if (this.positionFilter) {
+            await this.setStateIfChangedAsync('gps.raw_latitude', lat);
+            await this.setStateIfChangedAsync('gps.raw_longitude', lon);
+            if (!valid) {
+                this.trackRecorder?.breakSegment();
+                return;
+            }
+            const filtered = this.positionFilter.update({
+                ts: this.fixTimestamp || Date.now(),
+                lat,
+                lon,
+                hdop: this.hdop,
+                speed: this.speedKmh,
             });
+            if (!filtered) {
+                this.log.debug(`Position ${lat};${lon} rejected as outlier`);
+                return;
+            }
+            lat = filtered.lat;
+            lon = filtered.lon;
+            await this.setStateIfChangedAsync('gps.is_moving', filtered.moving);
+        }
 
-            this.serialPort.on('error', async (err: Error): Promise<void> => {
-                this.log.error(`Serial port error (${this.config.serialPort}): ${err.message || err}`);
-                await this.setStateIfChangedAsync('info.connection', false);
-
-                this.reconnectTimer ||= setTimeout(() => {
-                    this.reconnectTimer = null;
-                    this.log.info(`Reconnecting to serial port: ${this.config.serialPort}`);
-                    this.openPort().catch(error => this.log.warn(`Error opening serial port: ${error.message || err}`));
-                }, 5000);
-            });
+        const now = Date.now();
+        const lastLat = this.lastStates.get('gps.latitude');
+        const lastLon = this.lastStates.get('gps.longitude');
+        const prev =
+            typeof lastLat?.val === 'number' && typeof lastLon?.val === 'number'
+                ? { lat: lastLat.val, lon: lastLon.val, ts: Math.min(lastLat.ts, lastLon.ts) }
+                : null;
+        // all position states are written together, so they always show the same position
+        if (this.publishPolicy.shouldWritePosition(lat, lon, prev, now)) {
+            await this.writeState('gps.latitude', lat, now);
+            await this.writeState('gps.longitude', lon, now);
+            await this.writeState('gps.position', `${lon};${lat}`, now);
+            await this.writeState('gps.latlon', `${lat};${lon}`, now);
+            await this.publishCoordinates(lat, lon);
+        }
+        await this.mergeFix({ lat, lon, valid });
 
-            this.serialPort.on('close', async (): Promise<void> => {
-                this.log.info(`Serial port closed: ${this.config.serialPort}`);
-                await this.setStateIfChangedAsync('info.connection', false);
+        if (valid) {
+            this.lastPosition = { lat, lon };
+            await this.updateGeofences(lat, lon);
+            await this.recordTrackPoint(lat, lon);
+            await this.updateTrip(lat, lon);
+            await this.updateAstro(lat, lon);
+            await this.updateWaypoints(lat, lon);
+            await this.updateAnchor(lat, lon);
+            await this.syncSystemLocation(lat, lon);
+        } else {
+            this.trackRecorder?.breakSegment();
+        }
+    }
 
-                this.reconnectTimer ||= setTimeout(() => {
-                    this.reconnectTimer = null;
-                    this.log.info(`Reconnecting to serial port: ${this.config.serialPort}`);
-                    this.openPort().catch((err: Error) =>
-                        this.log.warn(`Error reopening serial port: ${err.message || err}`),
-                    );
-                }, 5000);
-            });
-        } catch (error) {
-            // Cannot open port
-            this.log.error(`Error parsing serial port: ${error.message || error}`);
-            await this.setStateIfChangedAsync('info.connection', false);
-            this.reconnectTimer ||= setTimeout(() => {
-                this.reconnectTimer = null;
-                this.log.info(`Reconnecting to serial port: ${this.config.serialPort}`);
-                this.openPort().catch((err: Error) =>
-                    this.log.warn(`Error opening serial port: ${err.message || err}`),
-                );
-            }, 5000);
+    /** Position in the notations enabled in the configuration */
+    private async publishCoordinates(lat: number, lon: number): Promise<void> {
+        const config = this.config;
+        if (config.coordinatesDms) {
+            await this.setStateIfChangedAsync('coordinates.dms_latitude', toDms(lat, true));
+            await this.setStateIfChangedAsync('coordinates.dms_longitude', toDms(lon, false));
+        }
+        if (config.coordinatesUtm || config.coordinatesMgrs) {
+            const utm = toUtm(lat, lon);
+            if (config.coordinatesUtm) {
+                await this.setStateIfChangedAsync('coordinates.utm', utm ? formatUtm(utm) : '');
+                await this.setStateIfChangedAsync('coordinates.utm_zone', utm ? `${utm.zone}${utm.band}` : '');
+                await this.setStateIfChangedAsync('coordinates.utm_easting', utm ? Math.round(utm.easting) : null);
+                await this.setStateIfChangedAsync('coordinates.utm_northing', utm ? Math.round(utm.northing) : null);
+            }
+            if (config.coordinatesMgrs) {
+                await this.setStateIfChangedAsync('coordinates.mgrs', utm ? toMgrs(utm) : '');
+            }
+        }
+        if (config.coordinatesMaidenhead) {
+            const length = parseInt(config.coordinatesMaidenheadLength as string, 10) === 8 ? 8 : 6;
+            await this.setStateIfChangedAsync('coordinates.maidenhead', toMaidenhead(lat, lon, length));
+        }
+        if (config.coordinatesGeohash) {
+            const precision = parseInt(config.coordinatesGeohashPrecision as string, 10) || 9;
+            await this.setStateIfChangedAsync(
+                'coordinates.geohash',
+                toGeohash(lat, lon, Math.min(Math.max(precision, 1), 12)),
+            );
         }
     }
 
-    private openUdpServer(port: number = 50547): void {
+    private initPublishPolicy(): void {
+        const config = this.config;
+        const rule = (interval: unknown, deadband: unknown, refresh: unknown): PublishRule => ({
+            minInterval: (parseFloat(interval as string) || 0) * 1000,
+            deadband: parseFloat(deadband as string) || 0,
+            refresh: (refresh === undefined || refresh === '' ? 60 : parseFloat(refresh as string) || 0) * 1000,
+        });
+        this.publishPolicy = new PublishPolicy({
+            position: rule(
+                config.publishPositionInterval,
+                config.publishPositionDeadband,
+                config.publishPositionRefresh,
+            ),
+            speed: rule(config.publishSpeedInterval, config.publishSpeedDeadband, config.publishSpeedRefresh),
+            course: rule(config.publishCourseInterval, config.publishCourseDeadband, config.publishCourseRefresh),
+            altitude: rule(
+                config.publishAltitudeInterval,
+                config.publishAltitudeDeadband,
+                config.publishAltitudeRefresh,
+            ),
+            default: rule(0, 0, config.publishRefresh),
+        });
+    }
+
+    /** Add values of the current epoch to gps.fix, the previous epoch is written when a new one starts */
+    private async mergeFix(data: Omit<GpsFix, 'ts'>): Promise<void> {
+        const completed = this.fixEpoch.merge(this.fixTimestamp, data);
+        if (completed) {
+            await this.publishFix(completed);
+        }
+    }
+
+    private async publishFix(fix: GpsFix): Promise<void> {
+        await this.setStateAsync('gps.fix', JSON.stringify(fix), true);
+    }
+
+    private initPositionFilter(): void {
+        if (!this.config.filterEnabled) {
+            return;
+        }
+        this.positionFilter = new PositionFilter({
+            mode: this.config.filterMode === 'ema' ? 'ema' : 'kalman',
+            stationarySpeed: parseFloat(this.config.filterStationarySpeed as string) || 0,
+            maxSpeed: parseFloat(this.config.filterMaxSpeed as string) || 300,
+        });
+    }
+
+    private async initTrackRecorder(): Promise<void> {
+        if (!this.config.trackEnabled) {
+            return;
+        }
+        const format = TRACK_FORMATS.includes(this.config.trackFormat as TrackFormat)
+            ? (this.config.trackFormat as TrackFormat)
+            : 'gpx';
+        this.trackRecorder = new TrackRecorder(this, {
+            format,
+            perTrip: this.config.trackRotation === 'trip',
+            interval: (parseFloat(this.config.trackInterval as string) || 5) * 1000,
+            tripGap: (parseFloat(this.config.trackTripGap as string) || 30) * 60000,
+            retentionDays: parseInt(this.config.trackRetentionDays as string, 10) || 0,
+            maxFiles: parseInt(this.config.trackMaxFiles as string, 10) || 0,
+        });
+
+        // the track files are stored in the files of the instance
+        await this.setForeignObjectNotExistsAsync(this.namespace, {
+            type: 'meta',
+            common: { name: 'serial-gps files', type: 'meta.user' },
+            native: {},
+        });
+
+        // recording stays paused over restarts
+        const recording = await this.getStateAsync('tracks.recording');
+        this.trackRecording = recording?.val !== false;
+        await this.setStateAsync('tracks.recording', this.trackRecording, true);
+        this.subscribeStates('tracks.recording');
+
+        await this.trackRecorder.applyRetention();
+        this.trackFlushTimer = setInterval(
+            () => this.trackRecorder?.flush().catch(e => this.log.warn(`Cannot write track: ${e.message || e}`)),
+            TRACK_FLUSH_INTERVAL,
+        );
+    }
+
+    private async recordTrackPoint(lat: number, lon: number): Promise<void> {
+        if (!this.trackRecorder || !this.trackRecording || !this.fixTimestamp) {
+            return;
+        }
+        let recorded: boolean;
+        try {
+            recorded = await this.trackRecorder.addPoint({
+                ts: this.fixTimestamp,
+                lat,
+                lon,
+                alt: this.altitude,
+                hdop: this.hdop || undefined,
+            });
+        } catch (e) {
+            // not a parse error of the sentence
+            this.log.warn(`Cannot write track: ${e.message || e}`);
+            return;
+        }
+        if (recorded) {
+            await this.setStateIfChangedAsync('tracks.file', this.trackRecorder.fileName);
+            await this.setStateIfChangedAsync('tracks.points', this.trackRecorder.points);
+        }
+    }
+
+    private async initTripComputer(): Promise<void> {
+        if (!this.config.tripEnabled) {
+            return;
+        }
+        // odometer and trip history are kept in the states over restarts
+        const odometer = await this.getStateAsync('odometer.total');
+        const history = await this.getStateAsync('trip.history');
+        let trips: Trip[] = [];
+        try {
+            trips = history?.val ? JSON.parse(history.val as string) : [];
+        } catch {
+            this.log.warn('Cannot parse trip history, start with empty history');
+        }
+        this.tripComputer = new TripComputer(
+            {
+                startSpeed: parseFloat(this.config.tripStartSpeed as string) || 5,
+                stopSpeed: parseFloat(this.config.tripStopSpeed as string) || 3,
+                startDistance: parseFloat(this.config.tripStartDistance as string) || 50,
+                stopTimeout: (parseFloat(this.config.tripStopTimeout as string) || 5) * 60000,
+                historySize: parseInt(this.config.tripHistorySize as string, 10) || 20,
+            },
+            ((odometer?.val as number) || 0) * 1000,
+            Array.isArray(trips) ? trips : [],
+        );
+        this.subscribeStates('trip.reset');
+        this.subscribeStates('odometer.*');
+    }
+
+    private async updateTrip(lat: number, lon: number): Promise<void> {
+        if (!this.tripComputer || !this.fixTimestamp) {
+            return;
+        }
+        const update = this.tripComputer.update({ ts: this.fixTimestamp, lat, lon, speed: this.speedKmh });
+        if (update.odometerChanged) {
+            await this.setStateIfChangedAsync('odometer.total', Math.round(this.tripComputer.odometer) / 1000);
+        }
+        if (update.started) {
+            this.log.info('Trip started');
+        }
+        if (update.ended) {
+            this.log.info(`Trip ended: ${(update.ended.distance / 1000).toFixed(2)} km`);
+            await this.setStateIfChangedAsync('trip.history', JSON.stringify(this.tripComputer.history));
+        }
+        if (this.tripComputer.active || update.ended) {
+            await this.publishTrip();
+        }
+    }
+
+    /** Sun position and times for the current position and GPS time */
+    private async updateAstro(lat: number, lon: number): Promise<void> {
+        if (!this.config.astroEnabled || !this.fixTimestamp) {
+            return;
+        }
+        const position = sunPosition(this.fixTimestamp, lat, lon);
+        await this.setStateIfChangedAsync('astro.sun_elevation', Math.round(position.elevation * 10) / 10);
+        await this.setStateIfChangedAsync('astro.sun_azimuth', Math.round(position.azimuth * 10) / 10);
+        // the times move a little with the position, so they are published with minute resolution
+        const times = sunTimes(this.fixTimestamp, lat, lon);
+        const minute = (ts: number | null): number | null => (ts === null ? null : Math.round(ts / 60000) * 60000);
+        await this.setStateIfChangedAsync('astro.dawn', minute(times.dawn));
+        await this.setStateIfChangedAsync('astro.sunrise', minute(times.sunrise));
+        await this.setStateIfChangedAsync('astro.solar_noon', minute(times.solarNoon));
+        await this.setStateIfChangedAsync('astro.sunset', minute(times.sunset));
+        await this.setStateIfChangedAsync('astro.dusk', minute(times.dusk));
+    }
+
+    private async initSystemLocation(): Promise<void> {
+        if (!this.config.systemLocationSync) {
+            return;
+        }
+        const obj = await this.getForeignObjectAsync('system.config');
+        // older installations store the location as string
+        const lat = parseFloat(String(obj?.common.latitude));
+        const lon = parseFloat(String(obj?.common.longitude));
+        // without a location in the system configuration the first good fix is written
+        this.systemLocation = isNaN(lat) || isNaN(lon) ? { lat: NaN, lon: NaN } : { lat, lon };
+    }
+
+    /** Write the position into system.config if it moved far enough and the fix is good */
+    private async syncSystemLocation(lat: number, lon: number): Promise<void> {
+        if (!this.systemLocation || this.systemLocationWriting) {
+            return;
+        }
+        const maxHdop = parseFloat(this.config.systemLocationMaxHdop as string) || 0;
+        if (this.fixQuality === 0 || (maxHdop && (!this.hdop || this.hdop > maxHdop))) {
+            return;
+        }
+        const minDistance = parseFloat(this.config.systemLocationDistance as string) || 1000;
+        if (
+            !isNaN(this.systemLocation.lat) &&
+            distance(this.systemLocation.lat, this.systemLocation.lon, lat, lon) < minDistance
+        ) {
+            return;
+        }
+        this.systemLocationWriting = true;
+        try {
+            const location = { lat: Math.round(lat * 1e6) / 1e6, lon: Math.round(lon * 1e6) / 1e6 };
+            await this.extendForeignObjectAsync('system.config', {
+                common: { latitude: location.lat, longitude: location.lon },
+            });
+            this.systemLocation = location;
+            this.log.info(`System location updated to ${location.lat};${location.lon}`);
+        } catch (e) {
+            this.log.warn(`Cannot update the system location: ${(e as Error).message || e}`);
+        } finally {
+            this.systemLocationWriting = false;
+        }
+    }
+
+    private async publishTrip(): Promise<void> {
+        const computer = this.tripComputer!;
+        const trip = computer.trip;
+        await this.setStateIfChangedAsync('trip.active', computer.active);
+        await this.setStateIfChangedAsync('trip.distance', trip ? Math.round(trip.distance / 10) / 100 : 0);
+        await this.setStateIfChangedAsync(
+            'trip.duration',
+            trip ? Math.round(((computer.active ? this.fixTimestamp : trip.end) - trip.start) / 1000) : 0,
+        );
+        await this.setStateIfChangedAsync('trip.moving_time', trip ? Math.round(trip.movingTime / 1000) : 0);
+        await this.setStateIfChangedAsync(
+            'trip.avg_speed',
+            trip?.movingTime ? Math.round((trip.distance / trip.movingTime) * 3600 * 10) / 10 : 0,
+        );
+        await this.setStateIfChangedAsync('trip.max_speed', trip ? trip.maxSpeed : 0);
+        await this.setStateIfChangedAsync('trip.start_time', trip ? trip.start : 0);
+        await this.setStateIfChangedAsync('trip.start_position', trip ? `${trip.startLat};${trip.startLon}` : '');
+        await this.setStateIfChangedAsync('trip.end_time', trip && !computer.active ? trip.end : 0);
+        await this.setStateIfChangedAsync(
+            'trip.end_position',
+            trip && !computer.active ? `${trip.endLat};${trip.endLon}` : '',
+        );
+    }
+
+    private async onStateChange(id: string, state: ioBroker.State | null | undefined): Promise<void> {
+        if (!state || state.ack) {
+            return;
+        }
+        if (this.tripComputer) {
+            if (id === `${this.namespace}.trip.reset` && state.val) {
+                this.log.info('Trip reset');
+                this.tripComputer.resetTrip();
+                await this.publishTrip();
+                return;
+            }
+            if (id === `${this.namespace}.odometer.reset` && state.val) {
+                this.log.info('Odometer reset');
+                this.tripComputer.odometer = 0;
+                await this.setStateIfChangedAsync('odometer.total', 0);
+                return;
+            }
+            if (id === `${this.namespace}.odometer.total`) {
+                // allow to set the odometer, e.g. to the value of the vehicle
+                const km = parseFloat(state.val as string);
+                if (!isNaN(km) && km >= 0) {
+                    this.tripComputer.odometer = km * 1000;
+                }
+                await this.setStateAsync('odometer.total', Math.round(this.tripComputer.odometer) / 1000, true);
+                return;
+            }
+        }
+        if (id.startsWith(`${this.namespace}.receiver.`)) {
+            const setting = id.substring(this.namespace.length + 10);
+            if (['update_rate', 'sentences', 'baud_rate', 'restart'].includes(setting)) {
+                try {
+                    const results = await this.configureReceiver(
+                        setting as 'update_rate' | 'sentences' | 'baud_rate' | 'restart',
+                        state.val,
+                    );
+                    if (results.every(item => item.result === 'ack' || item.result === 'sent')) {
+                        await this.setStateAsync(id, state.val, true);
+                    } else {
+                        this.log.warn(`Receiver did not confirm ${setting} = ${String(state.val)}`);
+                    }
+                } catch (e) {
+                    this.log.warn(`Cannot set ${setting}: ${e.message || e}`);
+                }
+            }
+            return;
+        }
+        if (id === `${this.namespace}.waypoints.save_current`) {
+            const name = String(state.val ?? '').trim();
+            if (name) {
+                try {
+                    await this.addWaypoint(name);
+                } catch (e) {
+                    this.log.warn(`Cannot save waypoint "${name}": ${e.message || e}`);
+                }
+            }
+            await this.setStateAsync('waypoints.save_current', '', true);
+            return;
+        }
+        if (id === `${this.namespace}.navigation.destination`) {
+            await this.setDestination(String(state.val ?? ''));
+            return;
+        }
+        if (id.startsWith(`${this.namespace}.anchor.`) && this.anchorWatch) {
+            await this.onAnchorCommand(id.substring(this.namespace.length + 8), state.val);
+            return;
+        }
+        if (id === `${this.namespace}.capture.enabled` && this.nmeaCapture) {
+            this.capturing = !!state.val;
+            this.log.info(`Raw data capture ${this.capturing ? 'started' : 'stopped'}`);
+            if (!this.capturing) {
+                await this.nmeaCapture.close();
+                await this.setStateIfChangedAsync('capture.file', '');
+                await this.setStateIfChangedAsync('capture.size', 0);
+            }
+            await this.setStateAsync('capture.enabled', this.capturing, true);
+            return;
+        }
+        if (id.startsWith(`${this.namespace}.replay.`) && this.replayPlayer) {
+            const player = this.replayPlayer;
+            const setting = id.substring(this.namespace.length + 8);
+            if (setting === 'playing') {
+                if (state.val) {
+                    player.play();
+                } else {
+                    player.pause();
+                }
+            } else if (setting === 'position') {
+                const position = parseFloat(state.val as string);
+                if (!isNaN(position)) {
+                    player.seek(position);
+                }
+            } else if (setting === 'speed') {
+                const speed = parseFloat(state.val as string);
+                if (speed > 0 && speed <= REPLAY_MAX_SPEED) {
+                    player.speed = speed;
+                } else {
+                    this.log.warn(`Invalid replay speed: ${String(state.val)}`);
+                }
+            } else if (setting === 'loop') {
+                player.loop = !!state.val;
+            }
+            // acknowledge the written state with the actual value
+            this.lastStates.delete(id);
+            await this.publishReplay();
+            return;
+        }
+        if (id === `${this.namespace}.tracks.recording` && this.trackRecorder) {
+            this.trackRecording = !!state.val;
+            this.log.info(`Track recording ${this.trackRecording ? 'resumed' : 'paused'}`);
+            this.trackRecorder.breakSegment();
+            if (!this.trackRecording) {
+                await this.trackRecorder.flush();
+            }
+            await this.setStateAsync('tracks.recording', this.trackRecording, true);
+        }
+    }
+
+    private async initNmeaServer(): Promise<void> {
+        const tcpPort = this.config.serverTcpEnabled ? parseInt(this.config.serverTcpPort as string, 10) || 10110 : 0;
+        let udpPort = this.config.serverUdpEnabled ? parseInt(this.config.serverUdpPort as string, 10) || 10110 : 0;
+        if (
+            udpPort &&
+            this.config.source === 'udp' &&
+            udpPort === (parseInt(this.config.udpPort as string, 10) || 10110)
+        ) {
+            // the adapter would receive its own datagrams again
+            this.log.error(`UDP broadcast port ${udpPort} is the same as the UDP input port. UDP broadcast disabled`);
+            udpPort = 0;
+        }
+        if (!tcpPort && !udpPort) {
+            return;
+        }
+        if (
+            this.config.serverAllowWrite &&
+            (this.config.source === 'udp' || this.config.source === 'gpsd' || this.config.source === 'replay')
+        ) {
+            this.log.warn(
+                'Sentences from NMEA clients can only be sent to a serial or TCP receiver and will be ignored',
+            );
+        }
+        this.nmeaServer = new NmeaServer(
+            this,
+            {
+                tcpPort,
+                udpPort,
+                udpAddress: this.config.serverUdpAddress || '255.255.255.255',
+                sentences: parseSentenceList(this.config.serverSentences),
+                maxClients: parseInt(this.config.serverMaxClients as string, 10) || 0,
+                allowWrite: !!this.config.serverAllowWrite,
+            },
+            clients =>
+                this.setStateIfChangedAsync('server.clients', clients).catch(e =>
+                    this.log.warn(`Cannot update clients: ${e.message || e}`),
+                ),
+            sentence => {
+                if (this.writeToReceiver(Buffer.from(`${sentence}\r\n`, 'ascii'))) {
+                    this.log.debug(`Send to receiver: ${sentence}`);
+                } else {
+                    this.log.debug(`Receiver not connected, sentence from NMEA client ignored: ${sentence}`);
+                }
+            },
+        );
+        await this.setStateAsync('server.clients', 0, true);
+        await this.setStateAsync('server.bytes_sent', 0, true);
+        await this.setStateAsync('server.bytes_received', 0, true);
+        this.nmeaServer.start();
+        this.nmeaServerTimer = setInterval(async () => {
+            if (this.nmeaServer) {
+                await this.setStateIfChangedAsync('server.bytes_sent', this.nmeaServer.bytesSent);
+                await this.setStateIfChangedAsync('server.bytes_received', this.nmeaServer.bytesReceived);
+            }
+        }, SERVER_STATS_INTERVAL);
+    }
+
+    /**
+     * Send data to the receiver
+     *
+     * @returns false if the receiver is not connected
+     */
+    private writeToReceiver(data: Buffer): boolean {
+        if (this.serialPort?.isOpen) {
+            this.serialPort.write(data);
+            return true;
+        }
+        if (this.tcpClient && this.config.source === 'tcp') {
+            this.tcpClient.write(data);
+            return true;
+        }
+        return false;
+    }
+
+    private async initWatchdog(): Promise<void> {
+        this.watchdog = new Watchdog({
+            dataTimeout: (parseFloat(this.config.watchdogDataTimeout as string) || 10) * 1000,
+            fixTimeout: (parseFloat(this.config.watchdogFixTimeout as string) || 10) * 1000,
+        });
+        await this.setStateAsync('info.receiving', false, true);
+        await this.setStateAsync('gps.fix_valid', false, true);
+        this.watchdogTimer = setInterval(
+            () => this.checkWatchdog().catch(e => this.log.warn(`Cannot update watchdog states: ${e.message || e}`)),
+            WATCHDOG_INTERVAL,
+        );
+    }
+
+    private async checkWatchdog(): Promise<void> {
+        const status = this.watchdog!.status();
+        const last = this.watchdogStatus;
+        this.watchdogStatus = status;
+        if (last && last.receiving !== status.receiving) {
+            if (status.receiving) {
+                this.log.info('Receiving data again');
+            } else {
+                this.log.warn(`No data received for ${parseFloat(this.config.watchdogDataTimeout as string) || 10} s`);
+            }
+        }
+        if (last?.fixValid && !status.fixValid) {
+            this.log.info(`No valid fix for ${parseFloat(this.config.watchdogFixTimeout as string) || 10} s`);
+            if (this.config.watchdogMarkStale) {
+                await this.markPositionStale(status.receiving ? QUALITY_DEVICE_ERROR : QUALITY_NOT_CONNECTED);
+            }
+        }
+        await this.setStateIfChangedAsync('info.receiving', status.receiving);
+        await this.setStateIfChangedAsync('gps.fix_valid', status.fixValid);
+        if (status.fixAge !== null) {
+            await this.setStateIfChangedAsync('gps.fix_age_s', status.fixAge);
+            await this.setStateIfChangedAsync('gps.last_fix_time', status.lastFixTime);
+        }
+        await this.setStateIfChangedAsync('stats.sentences_per_second', status.sentencesPerSecond);
+        await this.setStateIfChangedAsync('stats.checksum_errors', status.checksumErrors);
+        await this.setStateIfChangedAsync('stats.parse_errors', status.parseErrors);
+        await this.setStateIfChangedAsync('stats.reconnects', status.reconnects);
+        // the last epoch before the receiver stopped sending
+        const fix = this.fixEpoch.flush(FIX_EPOCH_TIMEOUT);
+        if (fix) {
+            await this.publishFix(fix);
+        }
+    }
+
+    /** Write the last values of the position states again with a bad quality code */
+    private async markPositionStale(q: ioBroker.STATE_QUALITY[keyof ioBroker.STATE_QUALITY]): Promise<void> {
+        for (const id of STALE_STATES) {
+            const last = this.lastStates.get(id);
+            if (last) {
+                // the next value is written even if it is the same, to reset the quality
+                this.lastStates.delete(id);
+                await this.setStateAsync(id, { val: last.val, ack: true, q });
+            }
+        }
+    }
+
+    private async initCapture(): Promise<void> {
+        this.nmeaCapture = new NmeaCapture(this, {
+            maxFileSize:
+                Math.max(CAPTURE_MIN_FILE_SIZE, parseInt(this.config.captureMaxFileSize as string, 10) || 1024) * 1024,
+            maxFiles: parseInt(this.config.captureMaxFiles as string, 10) || 0,
+        });
+        // the capture is switched on and off with the state and stays on over restarts
+        const enabled = await this.getStateAsync('capture.enabled');
+        this.capturing = !!enabled?.val;
+        await this.setStateAsync('capture.enabled', this.capturing, true);
+        await this.setStateAsync('capture.file', '', true);
+        await this.setStateAsync('capture.size', 0, true);
+        this.subscribeStates('capture.enabled');
+        this.captureFlushTimer = setInterval(async () => {
+            try {
+                await this.nmeaCapture!.flush();
+                if (this.capturing) {
+                    await this.setStateIfChangedAsync('capture.size', this.nmeaCapture!.fileSize);
+                }
+            } catch (e) {
+                this.log.warn(`Cannot write capture file: ${e.message || e}`);
+            }
+        }, CAPTURE_FLUSH_INTERVAL);
+    }
+
+    private async captureLine(line: string, valid: boolean): Promise<void> {
+        try {
+            await this.nmeaCapture!.add(line, valid);
+        } catch (e) {
+            this.log.warn(`Cannot write capture file: ${e.message || e}`);
+        }
+        await this.setStateIfChangedAsync('capture.file', `${CAPTURE_DIR}/${this.nmeaCapture!.fileName}`);
+    }
+
+    /** Absolute paths are read from the disk, other paths from the files of the instance, e.g. recorded tracks */
+    private async readReplayFile(file: string): Promise<string> {
+        if (isAbsolute(file)) {
+            return readFile(file, 'utf8');
+        }
+        const data = await this.readFileAsync(this.namespace, file);
+        return data.file.toString();
+    }
+
+    private async initReplay(): Promise<void> {
+        const file = (this.config.replayFile || '').trim();
+        if (!file) {
+            this.log.error('No file for the replay configured');
+            return;
+        }
+        let text: string;
+        try {
+            text = await this.readReplayFile(file);
+        } catch (e) {
+            this.log.error(`Cannot read replay file ${file}: ${e.message || e}`);
+            return;
+        }
+        // tracks are converted to GGA and RMC, all other files are NMEA logs
+        const format = trackFormatOfFile(file);
+        const frames = format ? trackToNmea(parseTrack(text, format)) : parseNmeaLog(text);
+        if (!frames.length) {
+            this.log.error(`Replay file ${file} contains no ${format ? 'track points' : 'NMEA sentences'}`);
+            return;
+        }
+        const speed = parseFloat(this.config.replaySpeed as string) || 1;
+        this.replayPlayer = new ReplayPlayer(
+            frames,
+            { speed: Math.min(Math.max(speed, 0.1), REPLAY_MAX_SPEED), loop: !!this.config.replayLoop },
+            data => this.processReceivedData(data),
+            () => this.publishReplay().catch(e => this.log.warn(`Cannot update replay states: ${e.message || e}`)),
+        );
+        this.log.info(`Replay of ${file}: ${frames.length} epochs, ${Math.round(this.replayPlayer.duration)} s`);
+        await this.setStateAsync('replay.file', file, true);
+        await this.setStateAsync('replay.duration', Math.round(this.replayPlayer.duration * 10) / 10, true);
+        this.subscribeStates('replay.*');
+        await this.publishReplay();
+        this.replayPlayer.play();
+    }
+
+    private async publishReplay(): Promise<void> {
+        const player = this.replayPlayer!;
+        await this.setStateIfChangedAsync('replay.playing', player.playing);
+        await this.setStateIfChangedAsync('replay.position', Math.round(player.position * 10) / 10);
+        await this.setStateIfChangedAsync('replay.speed', player.speed);
+        await this.setStateIfChangedAsync('replay.loop', player.loop);
+        // the replay is the receiver, it is connected while playing
+        await this.setStateIfChangedAsync('info.connection', player.playing);
+    }
+
+    private async initReceiverControl(): Promise<void> {
+        const type = RECEIVER_TYPES.includes(this.config.receiverType as ReceiverType)
+            ? (this.config.receiverType as ReceiverType)
+            : null;
+        this.receiverControl = new ReceiverControl(data => this.writeToReceiver(data), type);
+        await this.setStateAsync('receiver.type', type || '', true);
+        this.subscribeStates('receiver.*');
+    }
+
+    private async initNtrip(): Promise<void> {
+        await this.setStateAsync('ntrip.connected', false, true);
+        if (!this.config.ntripEnabled) {
+            return;
+        }
+        const host = (this.config.ntripHost || '').trim();
+        const mountpoint = (this.config.ntripMountpoint || '').trim();
+        if (!host || !mountpoint) {
+            this.log.error('NTRIP caster host and mountpoint must be set. NTRIP disabled');
+            return;
+        }
+        if (this.config.source === 'udp' || this.config.source === 'gpsd' || this.config.source === 'replay') {
+            this.log.warn('Corrections can only be sent to a serial or TCP receiver and will be ignored');
+        }
+        this.ntripClient = new NtripClient(
+            this,
+            {
+                host,
+                port: parseInt(this.config.ntripPort as string, 10) || NTRIP_DEFAULT_PORT,
+                mountpoint,
+                username: this.config.ntripUsername || '',
+                password: this.config.ntripPassword || '',
+                version: parseInt(this.config.ntripVersion as string, 10) === 1 ? 1 : 2,
+            },
+            data => {
+                if (!this.writeToReceiver(data)) {
+                    this.log.debug(`Receiver not connected, ${data.length} bytes of corrections ignored`);
+                }
+            },
+            connected => {
+                // VRS casters start sending after the first position
+                this.ntripGgaTime = 0;
+                this.setStateIfChangedAsync('ntrip.connected', connected).catch(e =>
+                    this.log.warn(`Cannot update NTRIP state: ${e.message || e}`),
+                );
+            },
+        );
+        await this.setStateAsync('ntrip.bytes_received', 0, true);
+        this.ntripClient.start();
+        this.ntripTimer = setInterval(
+            () => this.updateNtrip().catch(e => this.log.warn(`Cannot update NTRIP states: ${e.message || e}`)),
+            NTRIP_INTERVAL,
+        );
+    }
+
+    /** Publish the statistics and send the position to the caster in the configured interval */
+    private async updateNtrip(): Promise<void> {
+        const client = this.ntripClient;
+        if (!client) {
+            return;
+        }
+        const now = Date.now();
+        await this.setStateIfChangedAsync('ntrip.bytes_received', client.bytesReceived);
+        await this.setStateIfChangedAsync(
+            'ntrip.correction_age',
+            client.lastDataTime ? Math.round((now - client.lastDataTime) / 1000) : null,
+        );
+
+        const interval = (parseFloat(this.config.ntripGgaInterval as string) || 0) * 1000;
+        if (!interval || !this.lastPosition || !client.isConnected || now - this.ntripGgaTime < interval) {
+            return;
+        }
+        const satellites = this.lastStates.get('gps.satellites')?.val;
+        const sentence = ggaSentence(
+            this.fixTimestamp || now,
+            this.lastPosition.lat,
+            this.lastPosition.lon,
+            this.fixQuality || 1,
+            typeof satellites === 'number' ? satellites : undefined,
+            this.hdop,
+            this.altitude,
+        );
+        if (client.sendGga(sentence)) {
+            this.ntripGgaTime = now;
+            this.log.debug(`Send to NTRIP caster: ${sentence.toString('ascii').trim()}`);
+        }
+    }
+
+    /**
+     * Send a setting to the receiver in the commands of its type
+     *
+     * @param setting name of the state in the "receiver" channel
+     * @param value new value
+     */
+    private async configureReceiver(
+        setting: 'update_rate' | 'sentences' | 'baud_rate' | 'restart',
+        value: unknown,
+    ): Promise<CommandResult[]> {
+        const type = this.receiverControl?.type;
+        if (!type) {
+            throw new Error('Receiver type is unknown. Select it in the instance settings');
+        }
+        let commands: ReceiverCommand[];
+        switch (setting) {
+            case 'update_rate':
+                commands = updateRateCommands(type, parseFloat(value as string));
+                break;
+            case 'sentences':
+                commands = sentenceCommands(
+                    type,
+                    Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;\s]+/) : [],
+                );
+                break;
+            case 'baud_rate':
+                commands = baudRateCommands(type, parseInt(value as string, 10));
+                break;
+            default:
+                commands = restartCommands(type, value as RestartMode);
+                break;
+        }
+        const results = await this.receiverControl!.send(commands);
+        this.log.info(
+            `Receiver ${setting} = ${String(value)}: ${results.map(item => `${item.command} - ${item.result}`).join(', ')}`,
+        );
+        await this.setStateAsync('receiver.result', JSON.stringify(results), true);
+
+        if (setting === 'baud_rate' && this.serialPort) {
+            // the receiver switches immediately, so the port must follow. Not saved, as most receivers forget it at power off.
+            const port = this.serialPort;
+            await new Promise<void>(resolve => port.drain(() => resolve()));
+            this.config.baudRate = parseInt(value as string, 10);
+            this.log.info(`Reopen serial port with ${this.config.baudRate} baud`);
+            await this.openPort();
+        }
+        return results;
+    }
+
+    /** Parse a time from a message: epoch ms or a date string */
+    private static parseTime(value: unknown, def: number): number {
+        if (typeof value === 'number') {
+            return value;
+        }
+        if (typeof value === 'string' && value) {
+            const ts = Date.parse(value);
+            return isNaN(ts) ? def : ts;
+        }
+        return def;
+    }
+
+    /** Positions with bad fix quality or HDOP are not used to decide about zones */
+    private isFixGoodForGeofences(): boolean {
+        return this.isFixGood(
+            parseInt(this.config.geofenceMinFixQuality as string, 10) || 1,
+            parseFloat(this.config.geofenceMaxHdop as string) || 0,
+        );
+    }
+
+    /**
+     * Check the fix quality and HDOP of the current fix
+     *
+     * @param minFixQuality minimal GGA fix quality
+     * @param maxHdop maximal HDOP, 0 - no limit
+     */
+    private isFixGood(minFixQuality: number, maxHdop: number): boolean {
+        // receivers sending only RMC have no fix quality
+        if (this.fixQuality !== null && this.fixQuality < minFixQuality) {
+            return false;
+        }
+        return !maxHdop || !this.hdop || this.hdop <= maxHdop;
+    }
+
+    private async initGeofences(): Promise<void> {
+        const zones = parseZones(this.config.zones, text => this.log.warn(text));
+
+        // delete channels of zones that are not configured anymore
+        const channels = await this.getObjectViewAsync('system', 'channel', {
+            startkey: `${this.namespace}.zones.`,
+            endkey: `${this.namespace}.zones.\u9999`,
+        });
+        for (const row of channels.rows) {
+            const id = row.id.substring(`${this.namespace}.zones.`.length);
+            if (!zones.find(zone => zone.id === id)) {
+                this.log.info(`Delete zone "${id}"`);
+                await this.delObjectAsync(row.id, { recursive: true });
+            }
+        }
+
+        if (!zones.length) {
+            await this.delObjectAsync('zones', { recursive: true }).catch(() => {});
+            return;
+        }
+
+        await this.extendObjectAsync('zones', {
+            type: 'channel',
+            common: { name: { en: 'Geofencing zones', de: 'Geofencing-Zonen' } },
+            native: {},
+        });
+        await this.extendObjectAsync('zones.last_event', {
+            type: 'state',
+            common: {
+                name: { en: 'Last zone event', de: 'Letztes Zonenereignis' },
+                desc: 'JSON with zone, event ("enter" or "leave") and ts',
+                type: 'string',
+                role: 'json',
+                read: true,
+                write: false,
+            },
+            native: {},
+        });
+
+        const geofences = new Geofences(zones, parseFloat(this.config.geofenceHysteresis as string) || 0);
+        for (const zone of zones) {
+            const prefix = `zones.${zone.id}`;
+            await this.extendObjectAsync(prefix, {
+                type: 'channel',
+                common: { name: zone.name },
+                native: { type: zone.type },
+            });
+            await this.extendObjectAsync(`${prefix}.inside`, {
+                type: 'state',
+                common: {
+                    name: { en: `Inside ${zone.name}`, de: `In ${zone.name}` },
+                    type: 'boolean',
+                    role: 'indicator',
+                    read: true,
+                    write: false,
+                    def: false,
+                },
+                native: {},
+            });
+            await this.extendObjectAsync(`${prefix}.distance`, {
+                type: 'state',
+                common: {
+                    name: { en: `Distance to ${zone.name}`, de: `Entfernung zu ${zone.name}` },
+                    desc: 'Distance to the zone border, negative inside the zone',
+                    type: 'number',
+                    role: 'value.distance',
+                    unit: 'm',
+                    read: true,
+                    write: false,
+                },
+                native: {},
+            });
+            await this.extendObjectAsync(`${prefix}.last_enter`, {
+                type: 'state',
+                common: {
+                    name: { en: 'Last enter', de: 'Zuletzt betreten' },
+                    type: 'number',
+                    role: 'date',
+                    read: true,
+                    write: false,
+                    def: 0,
+                },
+                native: {},
+            });
+            await this.extendObjectAsync(`${prefix}.last_leave`, {
+                type: 'state',
+                common: {
+                    name: { en: 'Last leave', de: 'Zuletzt verlassen' },
+                    type: 'number',
+                    role: 'date',
+                    read: true,
+                    write: false,
+                    def: 0,
+                },
+                native: {},
+            });
+            await this.extendObjectAsync(`${prefix}.dwell`, {
+                type: 'state',
+                common: {
+                    name: { en: 'Dwell time', de: 'Verweildauer' },
+                    desc: 'Time inside the zone for the current stay, or duration of the last stay',
+                    type: 'number',
+                    role: 'value.interval',
+                    unit: 's',
+                    read: true,
+                    write: false,
+                    def: 0,
+                },
+                native: {},
+            });
+
+            // continue with the status from before restart, so no enter event is fired again
+            const inside = await this.getStateAsync(`${prefix}.inside`);
+            const lastEnter = await this.getStateAsync(`${prefix}.last_enter`);
+            const lastLeave = await this.getStateAsync(`${prefix}.last_leave`);
+            geofences.restore(zone.id, {
+                inside: !!inside?.val,
+                lastEnter: (lastEnter?.val as number) || 0,
+                lastLeave: (lastLeave?.val as number) || 0,
+            });
+        }
+        this.geofences = geofences;
+        this.log.info(`Geofencing active for ${zones.length} zone(s)`);
+    }
+
+    private async updateGeofences(lat: number, lon: number): Promise<void> {
+        if (!this.geofences) {
+            return;
+        }
+        if (!this.isFixGoodForGeofences()) {
+            this.log.debug(`Position ignored for geofencing: fix quality ${this.fixQuality}, HDOP ${this.hdop}`);
+            return;
+        }
+        for (const update of this.geofences.update(lat, lon, this.fixTimestamp || Date.now())) {
+            const prefix = `zones.${update.zone.id}`;
+            await this.setStateIfChangedAsync(`${prefix}.distance`, update.distance);
+            await this.setStateIfChangedAsync(`${prefix}.dwell`, update.dwell);
+            if (update.event) {
+                this.log.info(`Zone "${update.zone.name}": ${update.event}`);
+                await this.setStateIfChangedAsync(`${prefix}.last_enter`, update.lastEnter);
+                await this.setStateIfChangedAsync(`${prefix}.last_leave`, update.lastLeave);
+                await this.setStateIfChangedAsync(`${prefix}.inside`, update.inside);
+                await this.setStateIfChangedAsync(
+                    'zones.last_event',
+                    JSON.stringify({
+                        zone: update.zone.id,
+                        event: update.event,
+                        ts: update.event === 'enter' ? update.lastEnter : update.lastLeave,
+                    }),
+                );
+            } else {
+                await this.setStateIfChangedAsync(`${prefix}.inside`, update.inside);
+            }
+        }
+    }
+
+    private async initWaypoints(): Promise<void> {
+        const waypoints = parseWaypoints(this.config.waypoints, text => this.log.warn(text));
+
+        // restore the waypoints added at runtime, the configured ones have priority
+        const list = await this.getStateAsync('waypoints.list');
+        let saved: { name: string; lat: number; lon: number; runtime?: boolean }[] = [];
+        try {
+            saved = list?.val ? JSON.parse(list.val as string) : [];
+        } catch {
+            this.log.warn('Cannot parse waypoints.list');
+        }
+        const runtime = parseWaypoints(
+            saved
+                .filter(item => item.runtime)
+                .map(item => ({ name: item.name, latitude: item.lat, longitude: item.lon })),
+            text => this.log.warn(text),
+            true,
+        ).filter(item => !waypoints.find(waypoint => waypoint.id === item.id));
+        waypoints.push(...runtime);
+
+        // delete channels of waypoints that do not exist anymore
+        const channels = await this.getObjectViewAsync('system', 'channel', {
+            startkey: `${this.namespace}.waypoints.`,
+            endkey: `${this.namespace}.waypoints.\u9999`,
+        });
+        for (const row of channels.rows) {
+            const id = row.id.substring(`${this.namespace}.waypoints.`.length);
+            if (!waypoints.find(waypoint => waypoint.id === id)) {
+                this.log.info(`Delete waypoint "${id}"`);
+                await this.delObjectAsync(row.id, { recursive: true });
+            }
+        }
+        for (const waypoint of waypoints) {
+            await this.createWaypointObjects(waypoint);
+        }
+        this.waypointNavigator.waypoints = waypoints;
+        await this.saveWaypointList();
+
+        const destination = await this.getStateAsync('navigation.destination');
+        await this.setDestination((destination?.val as string) || '');
+
+        this.subscribeStates('waypoints.save_current');
+        this.subscribeStates('navigation.destination');
+        if (waypoints.length) {
+            this.log.info(`Navigation active for ${waypoints.length} waypoint(s)`);
+        }
+    }
+
+    private async createWaypointObjects(waypoint: Waypoint): Promise<void> {
+        const prefix = `waypoints.${waypoint.id}`;
+        await this.extendObjectAsync(prefix, {
+            type: 'channel',
+            common: { name: waypoint.name },
+            native: { lat: waypoint.lat, lon: waypoint.lon, runtime: !!waypoint.runtime },
+        });
+        await this.extendObjectAsync(`${prefix}.distance`, {
+            type: 'state',
+            common: {
+                name: { en: `Distance to ${waypoint.name}`, de: `Entfernung zu ${waypoint.name}` },
+                type: 'number',
+                role: 'value.distance',
+                unit: 'm',
+                read: true,
+                write: false,
+            },
+            native: {},
+        });
+        await this.extendObjectAsync(`${prefix}.bearing`, {
+            type: 'state',
+            common: {
+                name: { en: `Bearing to ${waypoint.name}`, de: `Peilung zu ${waypoint.name}` },
+                type: 'number',
+                role: 'value.direction',
+                unit: '°',
+                read: true,
+                write: false,
+            },
+            native: {},
+        });
+        await this.extendObjectAsync(`${prefix}.cross_track`, {
+            type: 'state',
+            common: {
+                name: { en: 'Cross-track deviation', de: 'Querablage' },
+                desc: 'Distance of the waypoint from the line of the current course, positive to the right',
+                type: 'number',
+                role: 'value.distance',
+                unit: 'm',
+                read: true,
+                write: false,
+            },
+            native: {},
+        });
+        await this.extendObjectAsync(`${prefix}.eta`, {
+            type: 'state',
+            common: {
+                name: { en: 'Estimated time of arrival', de: 'Voraussichtliche Ankunftszeit' },
+                desc: 'null if the waypoint is not approached',
+                type: 'number',
+                role: 'date',
+                read: true,
+                write: false,
+            },
+            native: {},
+        });
+    }
+
+    /** Write all waypoints into waypoints.list, the runtime waypoints are restored from there after restart */
+    private async saveWaypointList(): Promise<void> {
+        await this.setStateIfChangedAsync(
+            'waypoints.list',
+            JSON.stringify(
+                this.waypointNavigator.waypoints.map(waypoint => ({
+                    name: waypoint.name,
+                    lat: waypoint.lat,
+                    lon: waypoint.lon,
+                    runtime: !!waypoint.runtime,
+                })),
+            ),
+        );
+    }
+
+    /**
+     * Add a waypoint at runtime or replace one that was added at runtime
+     *
+     * @param name name of the waypoint
+     * @param lat latitude, default is the current position
+     * @param lon longitude, default is the current position
+     */
+    private async addWaypoint(name: string, lat?: number, lon?: number): Promise<Waypoint> {
+        if (lat === undefined || lon === undefined) {
+            if (!this.lastPosition) {
+                throw new Error('No valid position received yet');
+            }
+            lat = this.lastPosition.lat;
+            lon = this.lastPosition.lon;
+        }
+        let error = '';
+        const [waypoint] = parseWaypoints([{ name, latitude: lat, longitude: lon }], text => (error = text), true);
+        if (!waypoint) {
+            throw new Error(error);
+        }
+        const waypoints = this.waypointNavigator.waypoints;
+        const index = waypoints.findIndex(item => item.id === waypoint.id);
+        if (index !== -1 && !waypoints[index].runtime) {
+            throw new Error(`Waypoint "${waypoint.name}" is defined in the instance configuration`);
+        }
+        await this.createWaypointObjects(waypoint);
+        if (index === -1) {
+            waypoints.push(waypoint);
+        } else {
+            waypoints[index] = waypoint;
+        }
+        await this.saveWaypointList();
+        this.log.info(`Waypoint "${waypoint.name}" saved at ${waypoint.lat};${waypoint.lon}`);
+        return waypoint;
+    }
+
+    /** Delete a waypoint that was added at runtime */
+    private async deleteWaypoint(name: string): Promise<void> {
+        const id = waypointId(name || '');
+        const waypoints = this.waypointNavigator.waypoints;
+        const index = waypoints.findIndex(item => item.id === id);
+        if (index === -1) {
+            throw new Error(`Unknown waypoint "${name}"`);
+        }
+        if (!waypoints[index].runtime) {
+            throw new Error(`Waypoint "${name}" is defined in the instance configuration`);
+        }
+        waypoints.splice(index, 1);
+        await this.delObjectAsync(`waypoints.${id}`, { recursive: true });
+        for (const state of ['distance', 'bearing', 'cross_track', 'eta']) {
+            this.lastStates.delete(`waypoints.${id}.${state}`);
+        }
+        await this.saveWaypointList();
+        if (this.destination === id) {
+            await this.setDestination('');
+        }
+        this.log.info(`Waypoint "${name}" deleted`);
+    }
+
+    /** Select the waypoint for navigation.*, by name or ID, empty for none */
+    private async setDestination(name: string): Promise<void> {
+        const id = waypointId(name || '');
+        if (id && !this.waypointNavigator.waypoints.find(waypoint => waypoint.id === id)) {
+            this.log.warn(`Unknown destination "${name}"`);
+        } else if (id !== this.destination) {
+            this.destination = id;
+            this.destinationArriving = false;
+            this.destinationArrived = false;
+            this.log.info(id ? `Navigation to "${id}"` : 'Navigation stopped');
+        }
+        this.lastStates.delete('navigation.destination');
+        await this.setStateIfChangedAsync('navigation.destination', this.destination);
+        if (!this.destination) {
+            await this.publishNavigation(null);
+        }
+    }
+
+    private async updateWaypoints(lat: number, lon: number): Promise<void> {
+        if (!this.waypointNavigator.waypoints.length || !this.fixTimestamp) {
+            return;
+        }
+        const infos = this.waypointNavigator.update(this.fixTimestamp, lat, lon, this.course, this.speedKmh);
+        for (const info of infos) {
+            const prefix = `waypoints.${info.waypoint.id}`;
+            await this.setStateIfChangedAsync(`${prefix}.distance`, Math.round(info.distance));
+            await this.setStateIfChangedAsync(`${prefix}.bearing`, Math.round(info.bearing * 10) / 10);
+            await this.setStateIfChangedAsync(
+                `${prefix}.cross_track`,
+                info.crossTrack === null ? null : Math.round(info.crossTrack),
+            );
+            // the ETA changes with every speed variation, so it is published with minute resolution
+            await this.setStateIfChangedAsync(
+                `${prefix}.eta`,
+                info.eta === null ? null : Math.round(info.eta / 60000) * 60000,
+            );
+            if (info.waypoint.id === this.destination) {
+                await this.publishNavigation(info);
+            }
+        }
+    }
+
+    /** Outputs for the active destination, null to clear them */
+    private async publishNavigation(info: WaypointInfo | null): Promise<void> {
+        if (!info) {
+            await this.setStateIfChangedAsync('navigation.distance', null);
+            await this.setStateIfChangedAsync('navigation.bearing', null);
+            await this.setStateIfChangedAsync('navigation.cross_track', null);
+            await this.setStateIfChangedAsync('navigation.eta', null);
+            await this.setStateIfChangedAsync('navigation.time_to_go', null);
+            await this.setStateIfChangedAsync('navigation.arriving', false);
+            await this.setStateIfChangedAsync('navigation.arrived', false);
+            return;
+        }
+        const arrivalRadius = parseFloat(this.config.navigationArrivalRadius as string) || 50;
+        const notifyTime = (parseFloat(this.config.navigationNotifyMinutes as string) || 10) * 60;
+        const name = info.waypoint.name;
+
+        const arrived = info.distance <= arrivalRadius;
+        if (arrived && !this.destinationArrived) {
+            this.log.info(`Arrived at "${name}"`);
+        }
+        this.destinationArrived = arrived;
+
+        // leave the arriving state only with some margin, so a varying speed does not toggle it
+        let arriving = this.destinationArriving;
+        if (arrived || info.timeToGo === null) {
+            arriving = false;
+        } else if (info.timeToGo <= notifyTime) {
+            arriving = true;
+        } else if (info.timeToGo > notifyTime * 1.2) {
+            arriving = false;
+        }
+        if (arriving && !this.destinationArriving) {
+            this.log.info(`Arriving at "${name}" in ${Math.round(info.timeToGo! / 60)} minutes`);
+        }
+        this.destinationArriving = arriving;
+
+        await this.setStateIfChangedAsync('navigation.distance', Math.round(info.distance));
+        await this.setStateIfChangedAsync('navigation.bearing', Math.round(info.bearing * 10) / 10);
+        await this.setStateIfChangedAsync(
+            'navigation.cross_track',
+            info.crossTrack === null ? null : Math.round(info.crossTrack),
+        );
+        await this.setStateIfChangedAsync(
+            'navigation.eta',
+            info.eta === null ? null : Math.round(info.eta / 60000) * 60000,
+        );
+        await this.setStateIfChangedAsync(
+            'navigation.time_to_go',
+            info.timeToGo === null ? null : Math.round(info.timeToGo),
+        );
+        await this.setStateIfChangedAsync('navigation.arriving', arriving);
+        await this.setStateIfChangedAsync('navigation.arrived', arrived);
+    }
+
+    private async initAnchor(): Promise<void> {
+        const radius = await this.getStateAsync('anchor.radius');
+        this.anchorWatch = new AnchorWatch(
+            (radius?.val as number) > 0
+                ? (radius!.val as number)
+                : parseFloat(this.config.anchorRadius as string) || 50,
+            parseInt(this.config.anchorConfirmFixes as string, 10) || 3,
+        );
+        await this.setStateAsync('anchor.radius', this.anchorWatch.radius, true);
+
+        // the anchor watch continues after restart
+        const active = await this.getStateAsync('anchor.active');
+        const lat = await this.getStateAsync('anchor.latitude');
+        const lon = await this.getStateAsync('anchor.longitude');
+        if (active?.val && typeof lat?.val === 'number' && typeof lon?.val === 'number') {
+            const dropTime = await this.getStateAsync('anchor.drop_time');
+            const maxDistance = await this.getStateAsync('anchor.max_distance');
+            const alarm = await this.getStateAsync('anchor.alarm');
+            this.anchorWatch.restore({
+                anchor: [lat.val, lon.val],
+                dropTime: (dropTime?.val as number) || 0,
+                maxDistance: (maxDistance?.val as number) || 0,
+                alarm: !!alarm?.val,
+            });
+            this.log.info(`Anchor watch active at ${lat.val};${lon.val}, radius ${this.anchorWatch.radius} m`);
+        }
+        this.subscribeStates('anchor.*');
+    }
+
+    private async onAnchorCommand(command: string, value: ioBroker.StateValue): Promise<void> {
+        const watch = this.anchorWatch!;
+        switch (command) {
+            case 'drop':
+            case 'drop_offset': {
+                if (command === 'drop' && !value) {
+                    break;
+                }
+                let offset: { distance: number; bearing: number } | undefined;
+                if (command === 'drop_offset') {
+                    const parsed = parseAnchorOffset(String(value ?? ''));
+                    if (!parsed) {
+                        this.log.warn(
+                            `Invalid anchor offset "${String(value)}". Expected "metres,bearing" like "30,45"`,
+                        );
+                        break;
+                    }
+                    offset = parsed;
+                }
+                if (!this.lastPosition) {
+                    this.log.warn('Cannot drop the anchor: no valid position received yet');
+                    break;
+                }
+                const [lat, lon] = watch.drop(this.lastPosition.lat, this.lastPosition.lon, offset);
+                this.log.info(`Anchor dropped at ${lat};${lon}, radius ${watch.radius} m`);
+                await this.publishAnchor();
+                break;
+            }
+            case 'raise':
+                if (value && watch.anchor) {
+                    watch.raise();
+                    this.log.info('Anchor raised');
+                    await this.publishAnchor();
+                }
+                break;
+            case 'radius': {
+                const radius = parseFloat(value as string);
+                if (radius > 0) {
+                    watch.radius = radius;
+                    this.log.info(`Anchor swing radius set to ${radius} m`);
+                } else {
+                    this.log.warn(`Invalid anchor radius: ${String(value)}`);
+                }
+                await this.setStateAsync('anchor.radius', watch.radius, true);
+                break;
+            }
+            case 'alarm':
+                if (!value && watch.alarm) {
+                    watch.acknowledge();
+                    this.log.info('Anchor alarm acknowledged');
+                }
+                this.lastStates.delete('anchor.alarm');
+                await this.setStateIfChangedAsync('anchor.alarm', watch.alarm);
+                break;
+        }
+    }
+
+    private async publishAnchor(): Promise<void> {
+        const watch = this.anchorWatch!;
+        const anchor = watch.anchor;
+        await this.setStateIfChangedAsync('anchor.active', !!anchor);
+        await this.setStateIfChangedAsync('anchor.latitude', anchor ? anchor[0] : null);
+        await this.setStateIfChangedAsync('anchor.longitude', anchor ? anchor[1] : null);
+        await this.setStateIfChangedAsync('anchor.drop_time', watch.dropTime || null);
+        await this.setStateIfChangedAsync('anchor.max_distance', anchor ? watch.maxDistance : null);
+        await this.setStateIfChangedAsync(
+            'anchor.distance',
+            anchor && this.lastPosition
+                ? Math.round(distance(this.lastPosition.lat, this.lastPosition.lon, anchor[0], anchor[1]))
+                : null,
+        );
+        await this.setStateIfChangedAsync('anchor.alarm', watch.alarm);
+    }
+
+    private async updateAnchor(lat: number, lon: number): Promise<void> {
+        if (!this.anchorWatch?.anchor) {
+            return;
+        }
+        if (
+            !this.isFixGood(
+                parseInt(this.config.anchorMinFixQuality as string, 10) || 1,
+                parseFloat(this.config.anchorMaxHdop as string) || 0,
+            )
+        ) {
+            this.log.debug(`Position ignored for anchor watch: fix quality ${this.fixQuality}, HDOP ${this.hdop}`);
+            return;
+        }
+        const update = this.anchorWatch.update(lat, lon, this.fixTimestamp || Date.now())!;
+        await this.setStateIfChangedAsync('anchor.distance', update.distance);
+        await this.setStateIfChangedAsync('anchor.max_distance', update.maxDistance);
+        await this.setStateIfChangedAsync('anchor.alarm', update.alarm);
+        if (update.alarmRaised) {
+            const message = `Anchor alarm: ${update.distance} m from the anchor, swing radius ${this.anchorWatch.radius} m`;
+            this.log.warn(message);
+            try {
+                await this.registerNotification('serial-gps', 'anchorAlarm', message);
+            } catch (e) {
+                this.log.warn(`Cannot send notification: ${e.message || e}`);
+            }
+        }
+    }
+
+    private async initAis(): Promise<void> {
+        // the vessels of the last run are outdated
+        const channels = await this.getObjectViewAsync('system', 'channel', {
+            startkey: `${this.namespace}.ais.`,
+            endkey: `${this.namespace}.ais.\u9999`,
+        });
+        for (const row of channels.rows) {
+            await this.delObjectAsync(row.id, { recursive: true });
+        }
+        await this.setStateAsync('ais.vessels', 0, true);
+        if (!this.config.aisEnabled) {
+            return;
+        }
+        this.aisDecoder = new AisDecoder();
+        this.aisExpireTimer = setInterval(
+            () => this.expireAisVessels().catch(e => this.log.warn(`Cannot delete AIS vessels: ${e.message || e}`)),
+            AIS_EXPIRE_INTERVAL,
+        );
+    }
+
+    private async handleAisSentence(fields: string[]): Promise<void> {
+        const report = this.aisDecoder?.push(fields);
+        if (!report) {
+            return;
+        }
+        if (fields[0].endsWith('VDO')) {
+            // own ship, e.g. from an AIS transponder with its own GPS receiver
+            if (report.class !== 'base' && report.lat !== undefined && report.lon !== undefined) {
+                await this.publishOwnShip(report);
+            }
+            return;
+        }
+        await this.updateAisVessel(report);
+    }
+
+    private async publishOwnShip(report: AisReport): Promise<void> {
+        if (report.sog !== undefined) {
+            this.speedKmh = +(report.sog * 1.852).toFixed(2);
+        }
+        if (report.cog !== undefined) {
+            this.course = report.cog;
+        }
+        await this.publishPosition(report.lat!, report.lon!, true);
+        if (report.sog !== undefined) {
+            await this.setStateIfChangedAsync('gps.speed_knots', report.sog);
+            await this.setStateIfChangedAsync('gps.speed_kmh', this.speedKmh);
+        }
+        if (report.cog !== undefined) {
+            await this.setStateIfChangedAsync('gps.course', report.cog);
+        }
+        if (report.heading !== undefined) {
+            this.headingTrue = { value: report.heading, ts: Date.now() };
+            await this.setStateIfChangedAsync('gps.heading_true', report.heading);
+        }
+    }
+
+    private async updateAisVessel(report: AisReport): Promise<void> {
+        let vessel = this.aisVessels.get(report.mmsi);
+        if (!vessel) {
+            const maxVessels = parseInt(this.config.aisMaxVessels as string, 10) || 100;
+            if (this.aisVessels.size >= maxVessels) {
+                this.log.debug(`AIS vessel ${report.mmsi} ignored, already ${maxVessels} vessels`);
+                return;
+            }
+            vessel = { report: { ...report }, lastSeen: 0 };
+            this.aisVessels.set(report.mmsi, vessel);
+            await this.createAisVesselObjects(report.mmsi);
+            await this.setStateIfChangedAsync('ais.vessels', this.aisVessels.size);
+        }
+        const prefix = `ais.${report.mmsi}`;
+        if (report.name && report.name !== vessel.report.name) {
+            await this.extendObjectAsync(prefix, { common: { name: report.name } });
+        }
+        // static data and position come in different messages
+        Object.assign(vessel.report, report);
+        vessel.lastSeen = Date.now();
+
+        for (const [id, definition] of Object.entries(AIS_VESSEL_STATES)) {
+            const value = definition.key ? report[definition.key] : undefined;
+            if (value !== undefined) {
+                await this.setStateIfChangedAsync(`${prefix}.${id}`, value);
+            }
+        }
+        if (report.lat !== undefined && report.lon !== undefined && this.lastPosition) {
+            const { lat, lon } = this.lastPosition;
+            await this.setStateIfChangedAsync(
+                `${prefix}.distance`,
+                Math.round(distance(lat, lon, report.lat, report.lon)),
+            );
+            await this.setStateIfChangedAsync(
+                `${prefix}.bearing`,
+                Math.round(bearing(lat, lon, report.lat, report.lon) * 10) / 10,
+            );
+        }
+        await this.setStateAsync(`${prefix}.last_seen`, vessel.lastSeen, true);
+    }
+
+    private async createAisVesselObjects(mmsi: number): Promise<void> {
+        const prefix = `ais.${mmsi}`;
+        await this.extendObjectAsync(prefix, {
+            type: 'channel',
+            common: { name: String(mmsi) },
+            native: { mmsi },
+        });
+        for (const [id, definition] of Object.entries(AIS_VESSEL_STATES)) {
+            await this.extendObjectAsync(`${prefix}.${id}`, {
+                type: 'state',
+                common: { read: true, write: false, ...definition.common } as ioBroker.StateCommon,
+                native: {},
+            });
+        }
+    }
+
+    /** Delete the vessels that were not seen within the timeout */
+    private async expireAisVessels(): Promise<void> {
+        const timeout = (parseFloat(this.config.aisTimeout as string) || 10) * 60000;
+        const now = Date.now();
+        for (const [mmsi, vessel] of this.aisVessels) {
+            if (now - vessel.lastSeen < timeout) {
+                continue;
+            }
+            this.log.debug(`AIS vessel ${mmsi} expired`);
+            this.aisVessels.delete(mmsi);
+            await this.delObjectAsync(`ais.${mmsi}`, { recursive: true });
+            for (const id of Object.keys(AIS_VESSEL_STATES)) {
+                this.lastStates.delete(`ais.${mmsi}.${id}`);
+            }
+        }
+        await this.setStateIfChangedAsync('ais.vessels', this.aisVessels.size);
+    }
+
+    private async handleInstrumentSentence(type: string, fields: string[]): Promise<void> {
+        const readings = parseInstrumentSentence(
+            type,
+            fields,
+            parseFloat(this.config.instrumentsDepthOffset as string) || 0,
+        );
+        const now = Date.now();
+        const value = (id: string): number | undefined => readings.find(reading => reading.id === id)?.value;
+
+        const variation = value('magnetic_variation');
+        const magnetic = value('heading_magnetic');
+        if (type === 'HDG' && variation !== undefined && magnetic !== undefined) {
+            // the magnetic heading already contains the deviation
+            const heading = (magnetic + variation + 360) % 360;
+            this.headingTrue = { value: Math.round(heading * 10) / 10, ts: now };
+            await this.setStateIfChangedAsync('gps.heading_true', this.headingTrue.value);
+        }
+
+        if (readings.some(reading => reading.id.startsWith('wind_true'))) {
+            this.trueWindTime = now;
+        }
+        const apparentAngle = value('wind_apparent_angle');
+        const apparentSpeed = value('wind_apparent_speed');
+        if (
+            this.config.instrumentsTrueWind !== false &&
+            apparentAngle !== undefined &&
+            apparentSpeed !== undefined &&
+            this.course !== null &&
+            now - this.trueWindTime >= INSTRUMENT_TIMEOUT
+        ) {
+            const heading =
+                this.headingTrue && now - this.headingTrue.ts < INSTRUMENT_TIMEOUT ? this.headingTrue.value : undefined;
+            const wind = trueWind(apparentAngle, apparentSpeed, this.speedKmh / 1.852, this.course, heading);
+            readings.push(
+                { id: 'wind_true_angle', value: wind.angle },
+                { id: 'wind_true_speed', value: wind.speed },
+                { id: 'wind_true_direction', value: wind.direction },
+            );
+        }
+
+        for (const reading of readings) {
+            await this.publishInstrument(reading);
+        }
+    }
+
+    /** Write an instrument state and create it when it is written the first time */
+    private async publishInstrument(reading: InstrumentReading): Promise<void> {
+        const id = `instruments.${reading.id}`;
+        if (!this.instrumentStates.has(id)) {
+            if (!this.instrumentStates.size) {
+                await this.extendObjectAsync('instruments', {
+                    type: 'channel',
+                    common: { name: { en: 'Marine instruments', de: 'Bordinstrumente' } },
+                    native: {},
+                });
+            }
+            const common = reading.common || INSTRUMENT_STATES[reading.id];
+            await this.extendObjectAsync(id, {
+                type: 'state',
+                common: { type: 'number', read: true, write: false, ...common } as ioBroker.StateCommon,
+                native: {},
+            });
+            this.instrumentStates.add(id);
+        }
+        await this.setStateIfChangedAsync(id, reading.value);
+    }
+
+    private async publishSkyView(sky: SkySummary = this.skyView.getSummary()): Promise<void> {
+        await this.setStateIfChangedAsync('satellites.in_view', sky.inView);
+        await this.setStateIfChangedAsync('satellites.used', sky.used);
+        await this.setStateIfChangedAsync('satellites.gps', sky.perConstellation.GPS);
+        await this.setStateIfChangedAsync('satellites.glonass', sky.perConstellation.GLONASS);
+        await this.setStateIfChangedAsync('satellites.galileo', sky.perConstellation.Galileo);
+        await this.setStateIfChangedAsync('satellites.beidou', sky.perConstellation.BeiDou);
+        await this.setStateIfChangedAsync('satellites.qzss', sky.perConstellation.QZSS);
+        await this.setStateIfChangedAsync('satellites.snr_mean', sky.snrMean);
+        await this.setStateIfChangedAsync('satellites.snr_max', sky.snrMax);
+        await this.setStateIfChangedAsync('satellites.sky', JSON.stringify(sky.satellites));
+    }
+
+    private async processReceivedData(data: Buffer): Promise<void> {
+        this.watchdog!.dataReceived();
+        // u-blox receivers can send binary UBX frames between the NMEA lines
+        for (const frame of this.framer.push(data)) {
+            if (this.capturing) {
+                if (frame.type === 'ubx') {
+                    // binary frames as comment, they are ignored when the file is used as input
+                    await this.captureLine(
+                        `# UBX ${frame.id.toString(16).padStart(4, '0')} ${frame.payload.toString('hex')}`,
+                        true,
+                    );
+                } else {
+                    const line = frame.line.trim();
+                    await this.captureLine(line, !/^[$!]/.test(line) || verifyChecksum(line.substring(1)));
+                }
+            }
+            const detected = this.receiverControl?.handleFrame(frame);
+            if (detected) {
+                this.log.info(`Detected receiver type: ${detected}`);
+                await this.setStateIfChangedAsync('receiver.type', detected);
+            }
+            try {
+                if (frame.type === 'ubx') {
+                    this.watchdog!.sentenceReceived();
+                    await this.handleUbxFrame(frame.id, frame.payload);
+                } else {
+                    await this.parseData(frame.line);
+                }
+            } catch (e) {
+                this.watchdog!.parseErrors++;
+                this.log.error(`Error processing serial data: ${(e as Error).message || e}`);
+            }
+        }
+    }
+
+    private async handleUbxFrame(id: number, payload: Buffer): Promise<void> {
+        switch (id) {
+            case UBX_NAV_PVT: {
+                const pvt = parseNavPvt(payload);
+                if (!pvt) {
+                    break;
+                }
+                this.ubxPvtTime = Date.now();
+                if (pvt.ts !== null) {
+                    this.fixTimestamp = pvt.ts;
+                    await this.setStateIfChangedAsync('gps.timestamp', pvt.ts);
+                    await this.setStateIfChangedAsync('gps.date', formatNmeaDate(pvt.ts));
+                }
+                await this.setStateIfChangedAsync('gps.time_valid', pvt.timeValid);
+                await this.setStateIfChangedAsync('gps.time_fully_resolved', pvt.timeResolved);
+                await this.setStateIfChangedAsync('gps.time_accuracy', pvt.timeAccuracy);
+                this.fixQuality = ubxFixQuality(pvt);
+                await this.publishFixQuality(this.fixQuality);
+                const fixMode = pvt.fixType === 2 ? '2D' : pvt.fixType === 3 || pvt.fixType === 4 ? '3D' : '';
+                await this.setStateIfChangedAsync('gps.fix_mode', fixMode);
+                await this.setStateIfChangedAsync('gps.satellites', pvt.numSV);
+                await this.mergeFix({ quality: this.fixQuality, mode: fixMode, satellites: pvt.numSV });
+                if (!this.fixQuality) {
+                    this.trackRecorder?.breakSegment();
+                    break;
+                }
+                this.altitude = pvt.fixType >= 3 ? pvt.altMsl : undefined;
+                this.speedKmh = +(pvt.speed * 3.6).toFixed(2);
+                this.course = pvt.heading;
+                await this.publishPosition(pvt.lat, pvt.lon, true);
+                this.log.debug(`NAV-PVT parsed: lat=${pvt.lat}, lon=${pvt.lon}`);
+                if (this.altitude !== undefined) {
+                    await this.publishAltitude(this.altitude, Math.round((pvt.height - pvt.altMsl) * 1000) / 1000);
+                    await this.setStateIfChangedAsync('gps.accuracy_alt', pvt.vAcc);
+                }
+                await this.setStateIfChangedAsync('gps.speed_kmh', this.speedKmh);
+                await this.setStateIfChangedAsync('gps.speed_knots', +((pvt.speed * 3.6) / 1.852).toFixed(2));
+                await this.setStateIfChangedAsync('gps.course', pvt.heading);
+                await this.setStateIfChangedAsync('gps.pdop', pvt.pdop);
+                await this.setStateIfChangedAsync('gps.accuracy_horizontal', pvt.hAcc);
+                await this.setStateIfChangedAsync('gps.accuracy_speed', pvt.speedAccuracy);
+                await this.setStateIfChangedAsync('gps.velocity_north', pvt.velN);
+                await this.setStateIfChangedAsync('gps.velocity_east', pvt.velE);
+                await this.setStateIfChangedAsync('gps.velocity_down', pvt.velD);
+                await this.mergeFix({ alt: this.altitude, speed: this.speedKmh, course: pvt.heading, pdop: pvt.pdop });
+                break;
+            }
+
+            case UBX_NAV_SAT: {
+                const satellites = parseNavSat(payload);
+                if (satellites) {
+                    this.ubxSatTime = Date.now();
+                    await this.publishSkyView(summarizeSky(satellites, satellites.filter(sat => sat.used).length));
+                }
+                break;
+            }
+
+            case UBX_NAV_STATUS: {
+                const status = parseNavStatus(payload);
+                if (status) {
+                    await this.setStateIfChangedAsync('gps.ttff', status.ttff / 1000);
+                    await this.setStateIfChangedAsync('gps.spoofing', status.spoofing);
+                }
+                break;
+            }
+
+            case UBX_NAV_TIMEGPS: {
+                const time = parseNavTimeGps(payload);
+                if (time?.leapSecondsValid) {
+                    await this.setStateIfChangedAsync('gps.leap_seconds', time.leapSeconds);
+                }
+                break;
+            }
+
+            default:
+                this.log.silly(`Unhandled UBX message: 0x${id.toString(16).padStart(4, '0')}`);
+                break;
+        }
+    }
+
+    private scheduleReconnect(): void {
+        if (this.stopping) {
+            return;
+        }
+        this.reconnectTimer ||= setTimeout(() => {
+            this.reconnectTimer = null;
+            this.watchdog!.reconnects++;
+            if (this.config.source === 'tcp' || this.config.source === 'gpsd') {
+                this.log.info(`Reconnecting to ${this.getTcpHost()}:${this.getTcpPort()}`);
+                this.openTcpClient();
+            } else {
+                this.log.info(`Reconnecting to serial port: ${this.config.serialUsbId || this.config.serialPort}`);
+                this.openPort().catch((err: Error) =>
+                    this.log.warn(`Error opening serial port: ${err.message || err}`),
+                );
+            }
+        }, 5000);
+    }
+
+    private async processGpsdData(data: Buffer): Promise<void> {
+        this.watchdog!.dataReceived();
+        this.recvBuffer += data.toString('utf8');
+
+        let idx = this.recvBuffer.indexOf('\n');
+        // gpsd sends one JSON object per line
+        while (idx !== -1) {
+            const line = this.recvBuffer.slice(0, idx);
+            this.recvBuffer = this.recvBuffer.slice(idx + 1);
+            if (this.capturing && line.trim()) {
+                await this.captureLine(line.trim(), true);
+            }
+            const report = parseGpsdReport(line);
+            if (report) {
+                this.watchdog!.sentenceReceived();
+                try {
+                    await this.handleGpsdReport(report);
+                } catch (e) {
+                    this.watchdog!.parseErrors++;
+                    this.log.error(`Error processing gpsd report ${line}: ${(e as Error).message || e}`);
+                }
+            } else if (line.trim()) {
+                this.watchdog!.parseErrors++;
+                this.log.warn(`Invalid gpsd report: ${line}`);
+            }
+            idx = this.recvBuffer.indexOf('\n');
+        }
+    }
+
+    private async handleGpsdReport(report: { class: string }): Promise<void> {
+        this.log.silly(`gpsd: ${JSON.stringify(report)}`);
+        switch (report.class) {
+            case 'TPV': {
+                const tpv = report as GpsdTpv;
+                if (tpv.time) {
+                    const ts = Date.parse(tpv.time);
+                    if (!isNaN(ts)) {
+                        this.fixTimestamp = ts;
+                        await this.setStateIfChangedAsync('gps.timestamp', ts);
+                        await this.setStateIfChangedAsync('gps.date', formatNmeaDate(ts));
+                    }
+                }
+                this.fixQuality = gpsdFixQuality(tpv);
+                await this.publishFixQuality(this.fixQuality);
+                const fixMode = tpv.mode === 2 ? '2D' : tpv.mode === 3 ? '3D' : '';
+                await this.setStateIfChangedAsync('gps.fix_mode', fixMode);
+                await this.mergeFix({ quality: this.fixQuality, mode: fixMode });
+                if (tpv.mode < 2) {
+                    this.trackRecorder?.breakSegment();
+                    break;
+                }
+                const alt = tpv.altMSL ?? tpv.alt;
+                this.altitude = typeof alt === 'number' && tpv.mode === 3 ? alt : undefined;
+                if (typeof tpv.speed === 'number') {
+                    // m/s -> km/h
+                    this.speedKmh = +(tpv.speed * 3.6).toFixed(2);
+                }
+                if (typeof tpv.track === 'number') {
+                    this.course = tpv.track;
+                }
+                if (typeof tpv.lat === 'number' && typeof tpv.lon === 'number') {
+                    await this.publishPosition(tpv.lat, tpv.lon, true);
+                    this.log.debug(`TPV parsed: lat=${tpv.lat}, lon=${tpv.lon}`);
+                }
+                if (this.altitude !== undefined) {
+                    await this.publishAltitude(
+                        this.altitude,
+                        tpv.geoidSep ??
+                            (typeof tpv.altHAE === 'number'
+                                ? Math.round((tpv.altHAE - this.altitude) * 1000) / 1000
+                                : undefined),
+                    );
+                }
+                if (typeof tpv.speed === 'number') {
+                    await this.setStateIfChangedAsync('gps.speed_kmh', this.speedKmh);
+                    await this.setStateIfChangedAsync('gps.speed_knots', +((tpv.speed * 3.6) / 1.852).toFixed(2));
+                }
+                if (typeof tpv.track === 'number') {
+                    await this.setStateIfChangedAsync('gps.course', tpv.track);
+                }
+                if (typeof tpv.epx === 'number') {
+                    await this.setStateIfChangedAsync('gps.accuracy_lon', tpv.epx);
+                }
+                if (typeof tpv.epy === 'number') {
+                    await this.setStateIfChangedAsync('gps.accuracy_lat', tpv.epy);
+                }
+                if (typeof tpv.epv === 'number') {
+                    await this.setStateIfChangedAsync('gps.accuracy_alt', tpv.epv);
+                }
+                const eph =
+                    tpv.eph ??
+                    (typeof tpv.epx === 'number' && typeof tpv.epy === 'number'
+                        ? Math.sqrt(tpv.epx * tpv.epx + tpv.epy * tpv.epy)
+                        : undefined);
+                if (eph !== undefined) {
+                    await this.setStateIfChangedAsync('gps.accuracy_horizontal', Math.round(eph * 1000) / 1000);
+                }
+                await this.mergeFix({
+                    alt: this.altitude,
+                    speed: typeof tpv.speed === 'number' ? this.speedKmh : undefined,
+                    course: tpv.track,
+                });
+                break;
+            }
+
+            case 'SKY': {
+                const sky = report as GpsdSky;
+                if (typeof sky.hdop === 'number') {
+                    this.hdop = sky.hdop;
+                    await this.setStateIfChangedAsync('gps.hdop', sky.hdop);
+                }
+                if (typeof sky.pdop === 'number') {
+                    await this.setStateIfChangedAsync('gps.pdop', sky.pdop);
+                }
+                if (typeof sky.vdop === 'number') {
+                    await this.setStateIfChangedAsync('gps.vdop', sky.vdop);
+                }
+                // gpsd sends SKY reports without satellite list in between, they only update DOPs
+                if (sky.satellites) {
+                    const satellites = gpsdSatellites(sky);
+                    const used = sky.uSat ?? satellites.filter(sat => sat.used).length;
+                    await this.setStateIfChangedAsync('gps.satellites', used);
+                    await this.publishSkyView(summarizeSky(satellites, used));
+                }
+                await this.mergeFix({ hdop: sky.hdop, pdop: sky.pdop, vdop: sky.vdop });
+                break;
+            }
+
+            case 'TOFF':
+                await this.setStateIfChangedAsync('gps.time_offset', gpsdTimeOffset(report as GpsdToff));
+                break;
+
+            case 'ERROR':
+                this.log.warn(`gpsd error: ${(report as { message?: string }).message}`);
+                break;
+
+            default:
+                // VERSION, DEVICES, WATCH and other reports are not relevant
+                break;
+        }
+    }
+
+    private async openPort(): Promise<void> {
+        // Close existing port if open
+        await this.closePort();
+        this.framer.reset();
+
+        let path = await this.resolveSerialPath();
+        if (!path && this.config.serialAutoProbe) {
+            path = await this.probeSerialPorts();
+        }
+        if (!path) {
+            // opened by checkSerialDevices() when the receiver is plugged in
+            this.log.warn('Serial port of the receiver not found, waiting for the device');
+            return;
+        }
+        this.serialPath = path;
+        await this.setStateIfChangedAsync('info.serial_port', path);
+
+        try {
+            const port = new SerialPort({
+                path,
+                baudRate: parseInt(this.config.baudRate as string, 10) || 9600,
+                autoOpen: false,
+            });
+            this.serialPort = port;
+
+            port.open(async err => {
+                if (err) {
+                    this.log.error(`Failed to open serial port ${path}: ${err.message || err}`);
+                    if (this.serialPort !== port) {
+                        return;
+                    }
+                    if (this.probedPath) {
+                        // the probed device is gone, wait until a device is plugged in
+                        this.probedPath = '';
+                    } else if (this.config.serialAutoProbe && (await this.probeSerialPorts())) {
+                        await this.openPort();
+                    }
+                    return;
+                }
+                this.log.info(`Serial port opened: ${path} @ ${this.config.baudRate}`);
+                await this.setStateIfChangedAsync('info.connection', true);
+            });
+
+            port.on('data', async (data: Buffer): Promise<void> => {
+                if (this.reconnectTimer) {
+                    clearTimeout(this.reconnectTimer);
+                    this.reconnectTimer = null;
+                }
+                await this.processReceivedData(data);
+            });
+
+            port.on('error', async (err: Error): Promise<void> => {
+                if (this.serialPort !== port) {
+                    return;
+                }
+                this.log.error(`Serial port error (${path}): ${err.message || err}`);
+                await this.setStateIfChangedAsync('info.connection', false);
+                this.scheduleReconnect();
+            });
+
+            port.on('close', async (): Promise<void> => {
+                if (this.serialPort !== port) {
+                    return;
+                }
+                this.log.info(`Serial port closed: ${path}`);
+                await this.setStateIfChangedAsync('info.connection', false);
+                this.scheduleReconnect();
+            });
+        } catch (error) {
+            // Cannot open port
+            this.log.error(`Error parsing serial port: ${error.message || error}`);
+            await this.setStateIfChangedAsync('info.connection', false);
+            this.scheduleReconnect();
+        }
+    }
+
+    private async listSerialPorts(): Promise<SerialPortInfo[]> {
+        try {
+            return await SerialPort.list();
+        } catch (e) {
+            this.log.warn(`Cannot list serial ports: ${e.message || e}`);
+            return [];
+        }
+    }
+
+    /**
+     * Path of the receiver: the probed port, the port of the configured USB device or the configured path
+     *
+     * @returns empty string if the USB device is not connected or no port is configured
+     */
+    private async resolveSerialPath(): Promise<string> {
+        if (this.probedPath) {
+            return this.probedPath;
+        }
+        if (!this.config.serialUsbId) {
+            return this.config.serialPort || '';
+        }
+        const port = findPortByIdentity(await this.listSerialPorts(), this.config.serialUsbId);
+        if (!port) {
+            this.log.warn(`USB device ${this.config.serialUsbId} is not connected`);
+            return '';
+        }
+        if (port.path !== this.serialPath) {
+            this.log.info(`USB device ${this.config.serialUsbId} found at ${port.path}`);
+        }
+        return port.path;
+    }
+
+    /**
+     * Look for NMEA data on all serial ports with all baud rates, starting with the configured one
+     *
+     * @returns path of the found port, its baud rate is set in the configuration
+     */
+    private async probeSerialPorts(): Promise<string> {
+        if (this.probing) {
+            return '';
+        }
+        this.probing = true;
+        try {
+            const configured = parseInt(this.config.baudRate as string, 10) || 9600;
+            const baudRates = [configured, ...BAUD_RATES.filter(baudRate => baudRate !== configured)];
+            for (const port of await this.listSerialPorts()) {
+                for (const baudRate of baudRates) {
+                    if (this.stopping) {
+                        return '';
+                    }
+                    try {
+                        if (await this.testPort(port.path, baudRate)) {
+                            this.log.info(`Receiver found at ${port.path} with ${baudRate} baud`);
+                            this.config.baudRate = baudRate;
+                            this.probedPath = port.path;
+                            return port.path;
+                        }
+                    } catch {
+                        // port cannot be opened, e.g. used by another program
+                        break;
+                    }
+                }
+            }
+            this.log.warn('No receiver found on the serial ports');
+            return '';
+        } finally {
+            this.probing = false;
+        }
+    }
+
+    /** Notice plugged in and removed devices: the receiver is opened again as soon as it is back */
+    private async checkSerialDevices(): Promise<void> {
+        const changes = this.serialDeviceWatcher.update(await this.listSerialPorts());
+        if (!changes || this.stopping) {
+            return;
+        }
+        for (const port of changes.added) {
+            this.log.info(`Serial device connected: ${describePort(port)}`);
+        }
+        for (const path of changes.removed) {
+            this.log.info(`Serial device disconnected: ${path}`);
+        }
+        if (this.serialPort && changes.removed.includes(this.serialPath)) {
+            // not all systems report the removal as error of the open port
+            await this.closePort();
+            await this.setStateIfChangedAsync('info.connection', false);
+        }
+        if (changes.added.length && !this.serialPort?.isOpen && !this.probing) {
+            if (this.reconnectTimer) {
+                clearTimeout(this.reconnectTimer);
+                this.reconnectTimer = null;
+            }
+            await this.openPort();
+        }
+    }
+
+    private getTcpHost(): string {
+        if (this.config.source === 'gpsd') {
+            return this.config.gpsdHost || '127.0.0.1';
+        }
+        return this.config.tcpHost || '';
+    }
+
+    private getTcpPort(): number {
+        if (this.config.source === 'gpsd') {
+            return parseInt(this.config.gpsdPort as string, 10) || GPSD_DEFAULT_PORT;
+        }
+        return parseInt(this.config.tcpPort as string, 10) || 10110;
+    }
+
+    private openTcpClient(): void {
+        this.closeTcpClient();
+        this.recvBuffer = '';
+        this.framer.reset();
+
+        const gpsd = this.config.source === 'gpsd';
+        const host = this.getTcpHost();
+        const port = this.getTcpPort();
+        if (!host) {
+            this.log.error('No host for the TCP connection configured');
+            return;
+        }
+
+        const socket = createConnection({ host, port });
+        // detect half-open connections (e.g. power loss of the bridge)
+        socket.setKeepAlive(true, 10000);
+        this.tcpClient = socket;
+
+        socket.on('connect', async (): Promise<void> => {
+            this.log.info(`Connected to ${gpsd ? 'gpsd on ' : ''}${host}:${port}`);
+            if (gpsd) {
+                socket.write(GPSD_WATCH);
+            }
+            await this.setStateIfChangedAsync('info.connection', true);
+        });
+
+        socket.on(
+            'data',
+            (data: Buffer): Promise<void> => (gpsd ? this.processGpsdData(data) : this.processReceivedData(data)),
+        );
+
+        socket.on('error', (err: Error): void => {
+            this.log.error(`TCP connection error (${host}:${port}): ${err.message || err}`);
+        });
+
+        socket.on('close', async (): Promise<void> => {
+            if (this.tcpClient !== socket) {
+                return;
+            }
+            this.tcpClient = undefined;
+            this.log.info(`TCP connection to ${host}:${port} closed`);
+            await this.setStateIfChangedAsync('info.connection', false);
+            this.scheduleReconnect();
+        });
+    }
+
+    private closeTcpClient(): void {
+        if (this.tcpClient) {
+            const socket = this.tcpClient;
+            this.tcpClient = undefined;
+            socket.destroy();
+        }
+    }
+
+    private openUdpServer(port: number = 50547): void {
         try {
             const sock = createSocket('udp4');
 
             sock.on('message', async (data: Buffer): Promise<void> => {
+                // UDP has no link, so the connection is considered alive as long as datagrams arrive
+                if (this.udpIdleTimer) {
+                    clearTimeout(this.udpIdleTimer);
+                }
+                this.udpIdleTimer = setTimeout(() => {
+                    this.udpIdleTimer = null;
+                    this.setStateIfChangedAsync('info.connection', false).catch(() => {});
+                }, UDP_IDLE_TIMEOUT);
+
                 await this.setStateIfChangedAsync('info.connection', true);
-                // Just push the data to handler
-                await this.processReceivedData(Buffer.from(`${data.toString()}\n`));
+                // Just push the data to handler. A datagram normally holds complete sentences or UBX frames.
+                await this.processReceivedData(
+                    data[data.length - 1] === 0x0a ? data : Buffer.concat([data, Buffer.from('\n')]),
+                );
             });
 
             sock.on('error', (err: Error) => this.log.error(`UDP server error: ${err.message || err}`));
@@ -541,7 +3298,7 @@ export class SerialGpsAdapter extends Adapter {
             sock.on('listening', () => {
                 const address = sock.address();
                 this.log.debug(
-                    `UDP server listening on ${typeof address === 'string' ? address : `${address.address}:${address.port} for test purposes`}`,
+                    `UDP server listening on ${typeof address === 'string' ? address : `${address.address}:${address.port}`}${this.config.test ? ' for test purposes' : ''}`,
                 );
             });
 
@@ -553,6 +3310,10 @@ export class SerialGpsAdapter extends Adapter {
     }
 
     private closeUdpServer(): Promise<void> {
+        if (this.udpIdleTimer) {
+            clearTimeout(this.udpIdleTimer);
+            this.udpIdleTimer = null;
+        }
         if (!this.udpServer) {
             return Promise.resolve();
         }
@@ -573,12 +3334,56 @@ export class SerialGpsAdapter extends Adapter {
 
     async main(): Promise<void> {
         await this.setStateAsync('info.connection', false, true);
-        if (this.config.test) {
+        this.initPublishPolicy();
+        await this.initWatchdog();
+        this.initPositionFilter();
+        await this.initGeofences();
+        await this.initTrackRecorder();
+        await this.initTripComputer();
+        await this.initNmeaServer();
+        await this.initReceiverControl();
+        await this.initCapture();
+        await this.initSystemLocation();
+        await this.initWaypoints();
+        await this.initAnchor();
+        await this.initAis();
+        await this.initNtrip();
+
+        switch (this.config.source) {
+            case 'tcp':
+                this.openTcpClient();
+                break;
+
+            case 'gpsd':
+                this.openTcpClient();
+                break;
+
+            case 'udp':
+                this.openUdpServer(parseInt(this.config.udpPort as string, 10) || 10110);
+                break;
+
+            case 'replay':
+                await this.initReplay();
+                break;
+
+            default:
+                this.openPort().catch((err: Error) =>
+                    this.log.error(`Error opening serial port: ${err.message || err}`),
+                );
+                this.hotplugTimer = setInterval(
+                    () =>
+                        this.checkSerialDevices().catch(e =>
+                            this.log.warn(`Cannot check serial devices: ${e.message || e}`),
+                        ),
+                    HOTPLUG_INTERVAL,
+                );
+                break;
+        }
+
+        if (this.config.test && !this.udpServer) {
             // Open UDP port 50547 for test purposes
             this.openUdpServer(50547);
         }
-
-        this.openPort().catch((err: Error) => this.log.error(`Error opening serial port: ${err.message || err}`));
     }
 }
 
@@ -1,5 +1,197 @@
 export interface SerialGpsAdapterConfig {
+    /** where the NMEA data comes from, default is serial */
+    source?: 'serial' | 'tcp' | 'udp' | 'gpsd' | 'replay';
     serialPort: string;
+    /** USB identity "vendorId:productId[:serialNumber]" of the receiver, its path is looked up on every connect */
+    serialUsbId?: string;
+    /** look for NMEA data on all serial ports if the receiver is not found */
+    serialAutoProbe?: boolean;
     baudRate: number | string;
+    /** host of ser2net, ESP32 bridge or multiplexer for source "tcp" */
+    tcpHost?: string;
+    tcpPort?: number | string;
+    /** host running gpsd for source "gpsd", default is localhost */
+    gpsdHost?: string;
+    gpsdPort?: number | string;
+    /** local port to listen on for source "udp" */
+    udpPort?: number | string;
+    /** NMEA log or track file for source "replay", absolute path or file of the instance */
+    replayFile?: string;
+    /** playback speed, 1 - original timing */
+    replaySpeed?: number | string;
+    /** start the replay again at the end */
+    replayLoop?: boolean;
     test?: boolean;
+    /** vendor of the receiver for configuration commands, "auto" - detect from the received data */
+    receiverType?: 'auto' | 'mtk' | 'ublox' | 'sirf';
+
+    /** seconds without data until info.receiving becomes false */
+    watchdogDataTimeout?: number | string;
+    /** seconds without valid position until gps.fix_valid becomes false */
+    watchdogFixTimeout?: number | string;
+    /** write the position states with a bad quality code when the fix is lost */
+    watchdogMarkStale?: boolean;
+
+    zones?: GeofenceZoneConfig[];
+    /** a zone is left only if the position is this many metres outside the border */
+    geofenceHysteresis?: number | string;
+    /** positions with a higher HDOP are ignored for geofencing, 0 - no limit */
+    geofenceMaxHdop?: number | string;
+    /** minimal GGA fix quality for geofencing */
+    geofenceMinFixQuality?: number | string;
+
+    trackEnabled?: boolean;
+    trackFormat?: 'gpx' | 'kml' | 'geojson';
+    /** one file per UTC day or per trip */
+    trackRotation?: 'day' | 'trip';
+    /** minimal time between recorded points in seconds */
+    trackInterval?: number | string;
+    /** pause in minutes that starts a new trip file */
+    trackTripGap?: number | string;
+    /** track files older than this are deleted, 0 - keep forever */
+    trackRetentionDays?: number | string;
+    /** maximal number of track files, 0 - unlimited */
+    trackMaxFiles?: number | string;
+
+    /** smooth the position before it is published */
+    filterEnabled?: boolean;
+    filterMode?: 'kalman' | 'ema';
+    /** below this speed in km/h the position is held, 0 - never hold */
+    filterStationarySpeed?: number | string;
+    /** positions implying a higher speed in km/h are rejected */
+    filterMaxSpeed?: number | string;
+
+    tripEnabled?: boolean;
+    /** km/h from which a trip can start */
+    tripStartSpeed?: number | string;
+    /** below this speed in km/h the vehicle is standing */
+    tripStopSpeed?: number | string;
+    /** metres from the last stop before a trip starts */
+    tripStartDistance?: number | string;
+    /** minutes standing before the trip ends */
+    tripStopTimeout?: number | string;
+    /** number of trips in trip.history */
+    tripHistorySize?: number | string;
+
+    /** re-broadcast the received sentences to TCP clients */
+    serverTcpEnabled?: boolean;
+    serverTcpPort?: number | string;
+    /** send the received sentences as UDP datagrams */
+    serverUdpEnabled?: boolean;
+    serverUdpPort?: number | string;
+    /** destination of the datagrams, default is broadcast 255.255.255.255 */
+    serverUdpAddress?: string;
+    /** comma separated sentence types to forward like "GGA, RMC", empty - all */
+    serverSentences?: string;
+    /** maximal number of TCP clients, 0 - unlimited */
+    serverMaxClients?: number | string;
+    /** sentences from TCP clients are written to the receiver */
+    serverAllowWrite?: boolean;
+
+    /** size limit of a raw capture file in KB */
+    captureMaxFileSize?: number | string;
+    /** maximal number of capture files, 0 - unlimited */
+    captureMaxFiles?: number | string;
+
+    /** publish the position as degrees, minutes and seconds */
+    coordinatesDms?: boolean;
+    /** publish UTM zone, easting and northing */
+    coordinatesUtm?: boolean;
+    /** publish the MGRS grid reference */
+    coordinatesMgrs?: boolean;
+    /** publish the Maidenhead locator */
+    coordinatesMaidenhead?: boolean;
+    /** length of the Maidenhead locator, 6 or 8 characters */
+    coordinatesMaidenheadLength?: number | string;
+    /** publish the geohash */
+    coordinatesGeohash?: boolean;
+    /** number of geohash characters, 1..12 */
+    coordinatesGeohashPrecision?: number | string;
+
+    /** write the position into system.config */
+    systemLocationSync?: boolean;
+    /** metres the position must move before system.config is updated */
+    systemLocationDistance?: number | string;
+    /** system.config is only updated if the HDOP is not higher, 0 - no limit */
+    systemLocationMaxHdop?: number | string;
+    /** publish sun position, sunrise, sunset and twilight for the current position */
+    astroEnabled?: boolean;
+
+    waypoints?: WaypointConfig[];
+    /** metres from the destination that count as arrived */
+    navigationArrivalRadius?: number | string;
+    /** navigation.arriving is set this many minutes before the arrival */
+    navigationNotifyMinutes?: number | string;
+
+    /** default swing radius of the anchor watch in metres */
+    anchorRadius?: number | string;
+    /** consecutive fixes outside the radius that raise the anchor alarm */
+    anchorConfirmFixes?: number | string;
+    /** fixes with higher HDOP are ignored by the anchor watch, 0 - no limit */
+    anchorMaxHdop?: number | string;
+    /** minimal fix quality for the anchor watch, 1 - GPS, 2 - DGPS */
+    anchorMinFixQuality?: number | string;
+
+    /** decode AIS sentences into vessel channels */
+    aisEnabled?: boolean;
+    /** minutes without message after which a vessel is deleted */
+    aisTimeout?: number | string;
+    /** maximal number of vessel channels */
+    aisMaxVessels?: number | string;
+
+    /** metres from the transducer to the waterline (positive) or to the keel (negative) */
+    instrumentsDepthOffset?: number | string;
+    /** calculate the true wind from the apparent wind if the instruments do not send it */
+    instrumentsTrueWind?: boolean;
+
+    /** stream RTCM corrections from an NTRIP caster to the receiver */
+    ntripEnabled?: boolean;
+    ntripHost?: string;
+    ntripPort?: number | string;
+    ntripMountpoint?: string;
+    ntripUsername?: string;
+    ntripPassword?: string;
+    /** NTRIP protocol version, 1 or 2 */
+    ntripVersion?: number | string;
+    /** seconds between the GGA sentences sent to the caster, 0 - none */
+    ntripGgaInterval?: number | string;
+    /** seconds, position changes within this time after the last write are skipped */
+    publishPositionInterval?: number | string;
+    /** metres */
+    publishPositionDeadband?: number | string;
+    /** seconds, unchanged position is written again after this time, 0 - never */
+    publishPositionRefresh?: number | string;
+    publishSpeedInterval?: number | string;
+    /** km/h */
+    publishSpeedDeadband?: number | string;
+    publishSpeedRefresh?: number | string;
+    publishCourseInterval?: number | string;
+    /** degrees */
+    publishCourseDeadband?: number | string;
+    publishCourseRefresh?: number | string;
+    publishAltitudeInterval?: number | string;
+    /** metres */
+    publishAltitudeDeadband?: number | string;
+    publishAltitudeRefresh?: number | string;
+    /** seconds, unchanged values of all other states are written again after this time, 0 - never */
+    publishRefresh?: number | string;
+}
+
+export interface WaypointConfig {
+    enabled?: boolean;
+    name: string;
+    latitude?: number | string;
+    longitude?: number | string;
+}
+
+export interface GeofenceZoneConfig {
+    enabled?: boolean;
+    name: string;
+    type: 'circle' | 'polygon';
+    latitude?: number | string;
+    longitude?: number | string;
+    /** radius of a circle in metres */
+    radius?: number | string;
+    /** "lat,lon; lat,lon; ..." for polygons */
+    polygon?: string;
 }
@@ -3,6 +3,7 @@
 const setup = require('@iobroker/legacy-testing');
 const { readFileSync } = require('node:fs');
 const { createSocket } = require('node:dgram');
+const { createServer } = require('node:net');
 
 let objects = null;
 let states = null;
@@ -47,6 +48,64 @@ function sendDataToImitateConnection() {
     }, 1000);
 }
 
+function getState(id) {
+    return new Promise(resolve => states.getState(`serial-gps.0.${id}`, (_err, state) => resolve(state)));
+}
+
+// Send NMEA lines (or binary frames as Buffer) to the test UDP port and give the adapter time to process them
+async function sendLines(lines, delay = 1000) {
+    const sock = createSocket('udp4');
+    for (const line of lines) {
+        const buf = Buffer.isBuffer(line) ? line : Buffer.from(`${line}\r\n`, 'ascii');
+        await new Promise((resolve, reject) =>
+            sock.send(buf, 0, buf.length, 50547, '127.0.0.1', err => err ? reject(err) : resolve()));
+    }
+    sock.close();
+    await new Promise(resolve => setTimeout(resolve, delay));
+}
+
+// expected: state ID without namespace -> value
+async function expectStates(expected) {
+    for (const [id, value] of Object.entries(expected)) {
+        const state = await getState(id);
+        if (state?.val !== value) {
+            throw new Error(`State ${id} expected to be ${value} but found ${state?.val}`);
+        }
+    }
+}
+
+let originalNative = null;
+
+function getObject(id) {
+    return new Promise(resolve => objects.getObject(id, (_err, obj) => resolve(obj)));
+}
+
+// Change the instance configuration, the controller restarts the instance. It is restored after the test.
+async function changeConfig(native) {
+    const config = await getObject('system.adapter.serial-gps.0');
+    originalNative ||= { ...config.native };
+    Object.assign(config.native, native);
+    await new Promise(resolve => objects.setObject(config._id, config, () => resolve()));
+}
+
+async function restoreConfig() {
+    if (!originalNative) {
+        return;
+    }
+    const config = await getObject('system.adapter.serial-gps.0');
+    config.native = originalNative;
+    originalNative = null;
+    await new Promise(resolve => objects.setObject(config._id, config, () => resolve()));
+    // wait until the instance has stopped and is connected again with the test data
+    for (let i = 0; i < 10 && (await getState('info.connection'))?.val; i++) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+    }
+    sendDataToImitateConnection();
+    await new Promise((resolve, reject) => checkConnection(error => (error ? reject(new Error(error)) : resolve())));
+    clearInterval(interval);
+    interval = null;
+}
+
 describe.only('serial-gps: Test parser', () => {
     before('serial-gps: Start js-controller', function (_done) {
         //
@@ -59,6 +118,15 @@ describe.only('serial-gps: Test parser', () => {
             config.common.enabled = true;
             config.common.loglevel = 'debug';
             config.native.test = true;
+            config.native.zones = [
+                { enabled: true, name: 'Marina', type: 'circle', latitude: 43.5277, longitude: 15.964, radius: 100 },
+                { enabled: true, name: 'Far away', type: 'polygon', polygon: '48.1,11.5; 48.2,11.5; 48.2,11.6' },
+            ];
+            config.native.coordinatesDms = true;
+            config.native.coordinatesMgrs = true;
+            config.native.coordinatesMaidenhead = true;
+            config.native.coordinatesGeohash = true;
+            config.native.aisEnabled = true;
 
             await setup.setAdapterConfig(config.common, config.native);
 
@@ -70,6 +138,11 @@ describe.only('serial-gps: Test parser', () => {
         });
     });
 
+    afterEach('serial-gps: Restore the configuration', async function () {
+        this.timeout(30000);
+        await restoreConfig();
+    });
+
     it('serial-gps: Check if connected', done => {
         sendDataToImitateConnection();
         checkConnection(() => {
@@ -103,6 +176,332 @@ describe.only('serial-gps: Test parser', () => {
         }
     }).timeout(5000);
 
+    it('serial-gps: It must decode the sky view from GSV and GSA', async () => {
+        await expectStates({
+            'satellites.gps': 10,
+            'satellites.used': 13,
+        });
+        const state = await getState('satellites.sky');
+        const sky = JSON.parse(state.val);
+        const sat = sky.find(item => item.prn === 25);
+        if (!sat || sat.elevation !== 12 || sat.azimuth !== 140 || sat.snr !== 25 || !sat.used) {
+            throw new Error(`Satellite 25 has unexpected values: ${JSON.stringify(sat)}`);
+        }
+    }).timeout(5000);
+
+    it('serial-gps: It must detect the position inside of zones', async () => {
+        await expectStates({
+            'zones.Marina.inside': true,
+            'zones.Far_away.inside': false,
+        });
+        const state = await getState('zones.last_event');
+        const event = JSON.parse(state.val);
+        if (event.zone !== 'Marina' || event.event !== 'enter') {
+            throw new Error(`Unexpected zone event: ${state.val}`);
+        }
+    }).timeout(5000);
+
+    it('serial-gps: It must publish the coordinate formats', async () => {
+        await expectStates({
+            'coordinates.dms_latitude': '43°31\'39.8"N',
+            'coordinates.dms_longitude': '15°57\'50.4"E',
+            'coordinates.mgrs': '33T WJ 77897 19870',
+            'coordinates.maidenhead': 'JN73xm',
+            'coordinates.geohash': 'srere7bx7',
+        });
+    }).timeout(5000);
+
+    it('serial-gps: It must decode altitudes, VTG, ZDA, GST and HDT', async () => {
+        const sentences = [
+            '$GPVTG,054.7,T,034.4,M,005.5,N,010.2,K,A*25',
+            '$GPZDA,201530.00,04,07,2002,-02,30*4C',
+            '$GPGST,182141.000,15.5,15.3,7.2,21.8,0.9,0.5,0.8*54',
+            '$HEHDT,274.07,T*19',
+        ];
+        await sendLines(sentences, 500);
+
+        await expectStates({
+            // from GGA of data.txt: altitude -6.3 m, geoid separation 40.9 m
+            'gps.geoid_separation': 40.9,
+            'gps.altitude_ellipsoid': 34.6,
+            'gps.course_magnetic': 34.4,
+            'gps.speed_kmh': 10.2,
+            'gps.date': '040702',
+            'gps.timezone_offset': -150,
+            'gps.accuracy_lat': 0.9,
+            'gps.accuracy_alt': 0.8,
+            'gps.heading_true': 274.07,
+        });
+    }).timeout(5000);
+
+    it('serial-gps: It must decode AIS messages into vessel channels', async () => {
+        const sentences = [
+            '!AIVDM,1,1,,A,15RTgt0PAso;90TKcjM8h6g208CQ,0*4A',
+            // static data in two fragments
+            '!AIVDM,2,1,1,A,55?MbV02;H;s<HtKR20EHE:0@T4@Dn2222222216L961O5Gf0NSQEp6ClRp8,0*1C',
+            '!AIVDM,2,2,1,A,88888888880,2*25',
+        ];
+        await sendLines(sentences);
+
+        await expectStates({
+            'ais.371798000.latitude': 48.381633,
+            'ais.371798000.longitude': -123.395383,
+            'ais.371798000.sog': 12.3,
+            'ais.371798000.heading': 215,
+            'ais.351759000.name': 'EVER DIADEM',
+            'ais.351759000.destination': 'NEW YORK',
+            'ais.351759000.draught': 12.2,
+            'ais.vessels': 2,
+        });
+    }).timeout(5000);
+
+    it('serial-gps: It must create instrument states for received sentences', async () => {
+        const sentences = [
+            '$SDDPT,11.10,0.4,*7E',
+            '$YXMTW,18.5,C*1E',
+            '$IIXDR,P,1.0213,B,Barometer*16',
+            '$WIMWV,045.0,T,10.0,N,A*15',
+        ];
+        await sendLines(sentences);
+
+        await expectStates({
+            'instruments.depth_transducer': 11.1,
+            'instruments.depth': 11.5,
+            'instruments.water_temperature': 18.5,
+            'instruments.xdr_Barometer': 1021.3,
+            'instruments.wind_true_angle': 45,
+            'instruments.wind_true_speed': 10,
+        });
+        // no sentence with apparent wind was sent
+        const obj = await getObject('serial-gps.0.instruments.wind_apparent_speed');
+        if (obj) {
+            throw new Error('State instruments.wind_apparent_speed must not exist');
+        }
+    }).timeout(5000);
+
+    it('serial-gps: It must write the complete fix once per epoch', async () => {
+        const sentences = [
+            '$GPRMC,120000.00,A,5230.0000,N,01324.0000,E,2.00,84.4,191026,,,A*5A',
+            '$GPGGA,120000.00,5230.0000,N,01324.0000,E,1,08,0.9,34.5,M,44.0,M,,*5C',
+            '$GPGSA,A,3,01,02,03,04,05,06,07,08,,,,,1.5,0.9,1.2*34',
+            // the next epoch completes the first one
+            '$GPRMC,120001.00,A,5230.0010,N,01324.0000,E,2.10,84.0,191026,,,A*5F',
+        ];
+        await sendLines(sentences);
+
+        const state = await getState('gps.fix');
+        const fix = JSON.parse(state?.val || '{}');
+        const expected = {
+            ts: Date.UTC(2026, 9, 19, 12, 0, 0),
+            lat: 52.5,
+            lon: 13.4,
+            valid: true,
+            speed: 3.7,
+            course: 84.4,
+            quality: 1,
+            satellites: 8,
+            alt: 34.5,
+            mode: '3D',
+            pdop: 1.5,
+            hdop: 0.9,
+            vdop: 1.2,
+        };
+        for (const [key, value] of Object.entries(expected)) {
+            if (fix[key] !== value) {
+                throw new Error(`gps.fix.${key} expected to be ${value} but found ${fix[key]}`);
+            }
+        }
+    }).timeout(5000);
+
+    it('serial-gps: It must decode UBX NAV-PVT', async () => {
+        const payload = Buffer.alloc(92);
+        payload.writeUInt16LE(2026, 4); // year
+        payload.writeUInt8(10, 6); // month
+        payload.writeUInt8(19, 7); // day
+        payload.writeUInt8(0x07, 11); // date, time valid, fully resolved
+        payload.writeUInt8(3, 20); // 3D fix
+        payload.writeUInt8(0x01, 21); // gnssFixOK
+        payload.writeUInt8(12, 23); // numSV
+        payload.writeInt32LE(159640000, 24); // lon
+        payload.writeInt32LE(435277000, 28); // lat
+        payload.writeUInt32LE(1500, 40); // hAcc mm
+        payload.writeInt32LE(1250, 48); // velN mm/s
+        const frame = Buffer.concat([Buffer.from([0xb5, 0x62, 0x01, 0x07, payload.length, 0]), payload, Buffer.alloc(2)]);
+        let a = 0;
+        let b = 0;
+        for (let i = 2; i < frame.length - 2; i++) {
+            a = (a + frame[i]) & 0xff;
+            b = (b + a) & 0xff;
+        }
+        frame[frame.length - 2] = a;
+        frame[frame.length - 1] = b;
+
+        await sendLines([frame], 500);
+
+        await expectStates({
+            'gps.velocity_north': 1.25,
+            'gps.accuracy_horizontal': 1.5,
+            'gps.latitude': 43.5277,
+        });
+    }).timeout(5000);
+
+    it('serial-gps: It must read NMEA from a TCP server', async () => {
+        // fake NMEA-over-TCP gateway, sends one GGA per second
+        let timer = null;
+        const server = createServer(socket => {
+            timer = setInterval(
+                () => socket.write('$GPGGA,100000.00,4800.0000,N,01130.0000,E,1,07,1.1,520.0,M,47.0,M,,*61\r\n'),
+                1000,
+            );
+            socket.on('error', () => {});
+        });
+        await new Promise(resolve => server.listen(10112, '127.0.0.1', () => resolve()));
+
+        try {
+            await changeConfig({ source: 'tcp', tcpHost: '127.0.0.1', tcpPort: 10112 });
+            let state;
+            for (let i = 0; i < 30 && state?.val !== 48; i++) {
+                await new Promise(resolve => setTimeout(resolve, 1000));
+                state = await getState('gps.latitude');
+            }
+            await expectStates({
+                'gps.latitude': 48,
+                'gps.longitude': 11.5,
+                'info.connection': true,
+            });
+        } finally {
+            clearInterval(timer);
+            server.close();
+        }
+    }).timeout(40000);
+
+    it('serial-gps: It must read NMEA from UDP', async () => {
+        await changeConfig({ source: 'udp', udpPort: 10113 });
+        const sock = createSocket('udp4');
+        const buf = Buffer.from('$GPGGA,100000.00,4700.0000,N,00830.0000,E,1,07,1.1,410.0,M,47.0,M,,*64\r\n', 'ascii');
+        try {
+            let state;
+            // send until the restarted instance listens on the port
+            for (let i = 0; i < 30 && state?.val !== 47; i++) {
+                sock.send(buf, 0, buf.length, 10113, '127.0.0.1');
+                await new Promise(resolve => setTimeout(resolve, 1000));
+                state = await getState('gps.latitude');
+            }
+            await expectStates({
+                'gps.latitude': 47,
+                'gps.longitude': 8.5,
+            });
+        } finally {
+            sock.close();
+        }
+    }).timeout(40000);
+
+    it('serial-gps: It must read position from gpsd', async () => {
+        // fake gpsd: replay the canned reports after the client has sent ?WATCH
+        const reports = readFileSync(`${__dirname}/gpsd.txt`).toString();
+        const server = createServer(socket => {
+            socket.on('data', data => {
+                if (data.toString().startsWith('?WATCH=')) {
+                    socket.write(reports);
+                }
+            });
+            socket.on('error', () => {});
+        });
+        await new Promise(resolve => server.listen(29470, '127.0.0.1', () => resolve()));
+
+        try {
+            await changeConfig({ source: 'gpsd', gpsdHost: '127.0.0.1', gpsdPort: 29470 });
+
+            let state;
+            for (let i = 0; i < 30; i++) {
+                await new Promise(resolve => setTimeout(resolve, 1000));
+                state = await getState('gps.accuracy_lon');
+                if (state?.val === 2.129) {
+                    break;
+                }
+            }
+            if (state?.val !== 2.129) {
+                throw new Error(`State gps.accuracy_lon expected to be 2.129 but found ${state?.val}`);
+            }
+            await expectStates({
+                'gps.latitude': 43.527683333,
+                'gps.fix_quality': 2,
+                'satellites.glonass': 1,
+                'gps.time_offset': 12.5,
+            });
+        } finally {
+            server.close();
+        }
+    }).timeout(40000);
+
+    it('serial-gps: It must send NTRIP corrections to the receiver', async () => {
+        const rtcm = Buffer.from([0xd3, 0x00, 0x04, 0x3e, 0xd0, 0x00, 0x03, 0x8a, 0x0e, 0xde]);
+        // fake caster: NTRIP 1.0 response followed by one RTCM frame
+        let request = '';
+        const caster = createServer(socket => {
+            socket.on('data', data => {
+                request += data.toString();
+                if (data.toString().startsWith('GET /TEST')) {
+                    socket.write(Buffer.concat([Buffer.from('ICY 200 OK\r\n'), rtcm]));
+                }
+            });
+            socket.on('error', () => {});
+        });
+        // fake RTK receiver with fixed solution, collects the corrections
+        let received = Buffer.alloc(0);
+        let gga = null;
+        const receiver = createServer(socket => {
+            gga = setInterval(
+                () => socket.write('$GNGGA,120000.00,4331.6629,N,01557.8394,E,4,18,0.60,12.0,M,40.9,M,1.0,0000*54\r\n'),
+                500,
+            );
+            socket.on('data', data => (received = Buffer.concat([received, data])));
+            socket.on('error', () => {});
+        });
+        await new Promise(resolve => caster.listen(21010, '127.0.0.1', () => resolve()));
+        await new Promise(resolve => receiver.listen(10111, '127.0.0.1', () => resolve()));
+
+        try {
+            await changeConfig({
+                source: 'tcp',
+                tcpHost: '127.0.0.1',
+                tcpPort: 10111,
+                ntripEnabled: true,
+                ntripHost: '127.0.0.1',
+                ntripPort: 21010,
+                ntripMountpoint: 'TEST',
+                ntripUsername: 'user',
+                ntripVersion: 1,
+                ntripGgaInterval: 1,
+            });
+
+            let state;
+            for (let i = 0; i < 30; i++) {
+                await new Promise(resolve => setTimeout(resolve, 1000));
+                state = await getState('ntrip.bytes_received');
+                if (state?.val === rtcm.length && request.includes('$GPGGA')) {
+                    break;
+                }
+            }
+            if (state?.val !== rtcm.length) {
+                throw new Error(`State ntrip.bytes_received expected to be ${rtcm.length} but found ${state?.val}`);
+            }
+            if (!received.includes(rtcm)) {
+                throw new Error('RTCM data was not sent to the receiver');
+            }
+            if (!request.includes('Authorization: Basic ') || !request.includes('$GPGGA,')) {
+                throw new Error(`Caster expected request with authorization and GGA but got ${request}`);
+            }
+            await expectStates({
+                'ntrip.connected': true,
+                'gps.rtk_status': 'fixed',
+            });
+        } finally {
+            clearInterval(gga);
+            caster.close();
+            receiver.close();
+        }
+    }).timeout(40000);
 
     after('serial-gps Server: Stop js-controller', function (_done) {
         // let FUNCTION and not => here
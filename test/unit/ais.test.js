@@ -0,0 +1,124 @@
+'use strict';
+
+const assert = require('node:assert');
+const { AisDecoder, decodeAis } = require('../../build/lib/ais');
+
+/** Fields of a sentence without "!" and checksum, as the adapter passes them */
+function fields(sentence) {
+    return sentence.replace(/^!|\*..$/g, '').split(',');
+}
+
+/**
+ * 6-bit armored payload from a list of fields
+ *
+ * @param values [value, number of bits] in message order
+ */
+function armor(values) {
+    // negative values in two's complement
+    let bits = values
+        .map(([value, length]) => (value < 0 ? value + 2 ** length : value).toString(2).padStart(length, '0'))
+        .join('');
+    bits = bits.padEnd(Math.ceil(bits.length / 6) * 6, '0');
+    let payload = '';
+    for (let i = 0; i < bits.length; i += 6) {
+        const value = parseInt(bits.slice(i, i + 6), 2);
+        payload += String.fromCharCode(value < 40 ? value + 48 : value + 56);
+    }
+    return payload;
+}
+
+describe('ais', () => {
+    it('must decode a class A position report', () => {
+        const decoder = new AisDecoder();
+        assert.deepStrictEqual(decoder.push(fields('!AIVDM,1,1,,A,15RTgt0PAso;90TKcjM8h6g208CQ,0*4A')), {
+            type: 1,
+            mmsi: 371798000,
+            class: 'A',
+            navStatus: 0,
+            sog: 12.3,
+            cog: 224,
+            heading: 215,
+            lat: 48.381633,
+            lon: -123.395383,
+        });
+    });
+
+    it('must leave out values that are not available', () => {
+        const payload = armor([
+            [1, 6],
+            [0, 2],
+            [211000000, 30],
+            [15, 4],
+            [-128, 8],
+            [1023, 10],
+            [0, 1],
+            [181 * 600000, 28],
+            [91 * 600000, 27],
+            [3600, 12],
+            [511, 9],
+            [60, 6],
+            [0, 21],
+        ]);
+        assert.strictEqual(payload.length, 28);
+        assert.deepStrictEqual(decodeAis(payload), { type: 1, mmsi: 211000000, class: 'A', navStatus: 15 });
+        // 6 fill bits make the message too short
+        assert.strictEqual(decodeAis(payload, 6), null);
+    });
+
+    it('must decode a class B position report', () => {
+        assert.deepStrictEqual(decodeAis('B52K>;h00Fc>jpUlNV@ikwpUoP06'), {
+            type: 18,
+            mmsi: 338087471,
+            class: 'B',
+            sog: 0.1,
+            cog: 79.6,
+            lat: 40.68454,
+            lon: -74.072132,
+        });
+    });
+
+    it('must decode both parts of the class B static data', () => {
+        const decoder = new AisDecoder();
+        // with 2 fill bits
+        assert.deepStrictEqual(decoder.push(fields('!AIVDM,1,1,,A,H42O55i18tMET00000000000000,2*6D')), {
+            type: 24,
+            mmsi: 271041815,
+            class: 'B',
+            name: 'PROGUY',
+        });
+        assert.deepStrictEqual(decoder.push(fields('!AIVDM,1,1,,A,H42O55lti4hhhilD3nink000?050,0*40')), {
+            type: 24,
+            mmsi: 271041815,
+            class: 'B',
+            shipType: 60,
+            callsign: 'TC6163',
+            length: 15,
+            beam: 5,
+        });
+    });
+
+    it('must reassemble the fragments of the static and voyage data', () => {
+        const decoder = new AisDecoder();
+        const first = fields('!AIVDM,2,1,1,A,55?MbV02;H;s<HtKR20EHE:0@T4@Dn2222222216L961O5Gf0NSQEp6ClRp8,0*1C');
+        const second = fields('!AIVDM,2,2,1,A,88888888880,2*25');
+        assert.strictEqual(decoder.push(first, 1000), null);
+        assert.deepStrictEqual(decoder.push(second, 1500), {
+            type: 5,
+            mmsi: 351759000,
+            class: 'A',
+            imo: 9134270,
+            callsign: '3FOF8',
+            name: 'EVER DIADEM',
+            shipType: 70,
+            length: 295,
+            beam: 32,
+            draught: 12.2,
+            destination: 'NEW YORK',
+        });
+        // the second fragment alone
+        assert.strictEqual(decoder.push(second, 2000), null);
+        // the first fragment is too old
+        decoder.push(first, 3000);
+        assert.strictEqual(decoder.push(second, 9000), null);
+    });
+});
@@ -0,0 +1,60 @@
+'use strict';
+
+const assert = require('node:assert');
+const { AnchorWatch, parseAnchorOffset } = require('../../build/lib/anchor');
+
+// 10 m to the north in degrees of latitude
+const STEP = 10 / 111195;
+
+describe('anchor', () => {
+    it('parseAnchorOffset must read distance and bearing', () => {
+        assert.deepStrictEqual(parseAnchorOffset('30,45'), { distance: 30, bearing: 45 });
+        assert.deepStrictEqual(parseAnchorOffset(' 12.5; -90 '), { distance: 12.5, bearing: 270 });
+        assert.deepStrictEqual(parseAnchorOffset('20 370'), { distance: 20, bearing: 10 });
+        assert.strictEqual(parseAnchorOffset('30'), null);
+        assert.strictEqual(parseAnchorOffset('-5,45'), null);
+        assert.strictEqual(parseAnchorOffset('abc,45'), null);
+    });
+
+    it('must drop the anchor at an offset from the position', () => {
+        const watch = new AnchorWatch(40, 3);
+        const [lat, lon] = watch.drop(50, 10, { distance: 30, bearing: 0 }, 1000);
+        assert.ok(Math.abs(lat - (50 + 3 * STEP)) < 1e-6);
+        assert.ok(Math.abs(lon - 10) < 1e-9);
+        assert.strictEqual(watch.dropTime, 1000);
+        assert.strictEqual(watch.maxDistance, 30);
+    });
+
+    it('must raise the alarm after consecutive fixes outside of the radius', () => {
+        const watch = new AnchorWatch(40, 3);
+        assert.strictEqual(watch.update(50, 10, 1000), null);
+        watch.drop(50, 10);
+        // a single outlier is ignored
+        assert.strictEqual(watch.update(50 + 5 * STEP, 10, 1000).alarm, false);
+        assert.strictEqual(watch.update(50 + STEP, 10, 2000).alarm, false);
+        let result;
+        for (let ts = 3000; ts <= 5000; ts += 1000) {
+            result = watch.update(50 + 5 * STEP, 10, ts);
+            assert.strictEqual(result.alarmRaised, ts === 5000);
+        }
+        assert.strictEqual(result.distance, 50);
+        assert.strictEqual(result.maxDistance, 50);
+        // raised only once
+        assert.strictEqual(watch.update(50 + 5 * STEP, 10, 6000).alarmRaised, false);
+        assert.ok(watch.alarm);
+        watch.acknowledge();
+        assert.ok(!watch.alarm);
+        watch.raise();
+        assert.strictEqual(watch.anchor, null);
+        assert.strictEqual(watch.update(50, 10, 7000), null);
+    });
+
+    it('must count each epoch only once', () => {
+        const watch = new AnchorWatch(40, 2);
+        watch.drop(50, 10);
+        // GGA and RMC of the same epoch
+        watch.update(50 + 5 * STEP, 10, 1000);
+        assert.strictEqual(watch.update(50 + 5 * STEP, 10, 1000).alarm, false);
+        assert.strictEqual(watch.update(50 + 5 * STEP, 10, 2000).alarmRaised, true);
+    });
+});
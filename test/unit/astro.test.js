@@ -0,0 +1,48 @@
+'use strict';
+
+const assert = require('node:assert');
+const { sunPosition, sunTimes } = require('../../build/lib/astro');
+
+// Berlin
+const LAT = 52.52;
+const LON = 13.405;
+
+/** Difference to the published time in minutes */
+function minutesFrom(ts, hours, minutes) {
+    return Math.abs(ts - Date.UTC(2026, 5, 21, hours, minutes)) / 60000;
+}
+
+describe('astro', () => {
+    it('sunTimes must match the published times of the summer solstice', () => {
+        const times = sunTimes(Date.UTC(2026, 5, 21, 12), LAT, LON);
+        assert.ok(minutesFrom(times.sunrise, 2, 43) < 2);
+        assert.ok(minutesFrom(times.sunset, 19, 33) < 2);
+        assert.ok(minutesFrom(times.solarNoon, 11, 9) < 2);
+        assert.ok(times.dawn < times.sunrise && times.dusk > times.sunset);
+    });
+
+    it('sunTimes must return null for the polar day and night', () => {
+        // Tromsø in June: midnight sun
+        const day = sunTimes(Date.UTC(2026, 5, 21, 12), 69.65, 18.96);
+        assert.strictEqual(day.sunrise, null);
+        assert.strictEqual(day.sunset, null);
+        assert.ok(sunPosition(day.solarNoon + 43200000, 69.65, 18.96).elevation > 0);
+        // Longyearbyen in December: polar night without civil twilight
+        const night = sunTimes(Date.UTC(2026, 11, 21, 12), 78.22, 15.65);
+        assert.strictEqual(night.sunrise, null);
+        assert.strictEqual(night.dawn, null);
+        assert.ok(sunPosition(night.solarNoon, 78.22, 15.65).elevation < -6);
+    });
+
+    it('sunPosition must return the elevation and azimuth', () => {
+        const noon = sunTimes(Date.UTC(2026, 5, 21, 12), LAT, LON).solarNoon;
+        const position = sunPosition(noon, LAT, LON);
+        // 90° - latitude + declination
+        assert.ok(Math.abs(position.elevation - (90 - LAT + 23.44)) < 0.1);
+        assert.ok(Math.abs(position.azimuth - 180) < 1);
+        // in the morning in the north east
+        const morning = sunPosition(Date.UTC(2026, 5, 21, 3, 30), LAT, LON);
+        assert.ok(morning.elevation > 0 && morning.elevation < 10);
+        assert.ok(morning.azimuth > 45 && morning.azimuth < 70);
+    });
+});
@@ -0,0 +1,90 @@
+'use strict';
+
+const assert = require('node:assert');
+const { formatUtm, toDms, toGeohash, toMaidenhead, toMgrs, toUtm } = require('../../build/lib/coordinates');
+
+// fixed values, checked against the reference libraries for UTM, MGRS, Maidenhead and geohash
+const VECTORS = [
+    {
+        name: 'Eiffel tower',
+        lat: 48.8583,
+        lon: 2.2945,
+        utm: '31U 448251 5411943',
+        mgrs: '31U DQ 48251 11943',
+        maidenhead: 'JN18du',
+        geohash: 'u09tunqu1',
+    },
+    {
+        name: 'Split',
+        lat: 43.527715,
+        lon: 15.96399,
+        utm: '33T 577897 4819870',
+        mgrs: '33T WJ 77897 19870',
+        maidenhead: 'JN73xm',
+        geohash: 'srere7bx7',
+    },
+    {
+        name: 'Sydney',
+        lat: -33.8568,
+        lon: 151.2153,
+        utm: '56H 334900 6252288',
+        mgrs: '56H LH 34900 52288',
+        maidenhead: 'QF56od',
+        geohash: 'r3gx2ux9g',
+    },
+    {
+        // zone 32 instead of 31 in southern Norway
+        name: 'Bergen',
+        lat: 60.39,
+        lon: 5.32,
+        utm: '32V 297230 6700510',
+        mgrs: '32V KN 97230 00510',
+        maidenhead: 'JP20pj',
+        geohash: 'u4ez919vh',
+    },
+    {
+        // zones 31, 33, 35 and 37 on Svalbard
+        name: 'Longyearbyen',
+        lat: 78.22,
+        lon: 15.65,
+        utm: '33X 514813 8683004',
+        mgrs: '33X WG 14813 83004',
+        maidenhead: 'JQ78tf',
+        geohash: 'umghupebx',
+    },
+];
+
+describe('coordinates', () => {
+    for (const vector of VECTORS) {
+        it(`must convert the position of ${vector.name}`, () => {
+            const utm = toUtm(vector.lat, vector.lon);
+            assert.strictEqual(formatUtm(utm), vector.utm);
+            assert.strictEqual(toMgrs(utm), vector.mgrs);
+            assert.strictEqual(toMaidenhead(vector.lat, vector.lon), vector.maidenhead);
+            assert.strictEqual(toGeohash(vector.lat, vector.lon), vector.geohash);
+        });
+    }
+
+    it('must support other precisions', () => {
+        assert.strictEqual(toMgrs(toUtm(48.8583, 2.2945), 3), '31U DQ 482 119');
+        assert.strictEqual(toMaidenhead(48.8583, 2.2945, 4), 'JN18');
+        assert.strictEqual(toMaidenhead(48.8583, 2.2945, 8), 'JN18du55');
+        // the example of Wikipedia
+        assert.strictEqual(toGeohash(57.64911, 10.40744, 11), 'u4pruydqqvj');
+    });
+
+    it('must handle the limits', () => {
+        assert.strictEqual(toUtm(84.5, 10), null);
+        assert.strictEqual(toUtm(-80.5, 10), null);
+        assert.strictEqual(toMaidenhead(90, 180), 'RR99xx');
+        assert.strictEqual(toMaidenhead(-90, -180), 'AA00aa');
+    });
+
+    it('toDms must round to tenths of seconds', () => {
+        assert.strictEqual(toDms(43.527715, true), '43°31\'39.8"N');
+        assert.strictEqual(toDms(-0.5, true), '0°30\'00.0"S');
+        // 11°59'59.96" must not become 11°59'60.0"
+        assert.strictEqual(toDms(-11.9999889, false), '12°00\'00.0"W');
+        assert.strictEqual(toDms(15.96399, false), '15°57\'50.4"E');
+    });
+});
@@ -0,0 +1,56 @@
+'use strict';
+
+const assert = require('node:assert');
+const { FixEpoch } = require('../../build/lib/fixEpoch');
+
+describe('fixEpoch', () => {
+    it('must merge the sentences of one epoch', () => {
+        const epoch = new FixEpoch();
+        // RMC, GGA and GSA of the same time
+        assert.strictEqual(epoch.merge(1000, { lat: 52.5, lon: 13.4, valid: true, speed: 3.7, course: 84.4 }, 0), null);
+        assert.strictEqual(epoch.merge(1000, { lat: 52.5, lon: 13.4, quality: 1, satellites: 8, alt: 34.5 }, 10), null);
+        assert.strictEqual(epoch.merge(1000, { mode: '3D', pdop: 1.5, hdop: 0.9, vdop: undefined }, 20), null);
+        // the next epoch completes the first one
+        assert.deepStrictEqual(epoch.merge(2000, { lat: 52.6, lon: 13.4, speed: 3.8 }, 1000), {
+            ts: 1000,
+            lat: 52.5,
+            lon: 13.4,
+            valid: true,
+            speed: 3.7,
+            course: 84.4,
+            quality: 1,
+            satellites: 8,
+            alt: 34.5,
+            mode: '3D',
+            pdop: 1.5,
+            hdop: 0.9,
+        });
+    });
+
+    it('must add data before the first time to the first epoch', () => {
+        const epoch = new FixEpoch();
+        // GSA has no time
+        epoch.merge(0, { pdop: 1.5 }, 0);
+        epoch.merge(1000, { lat: 52.5, lon: 13.4 }, 10);
+        assert.deepStrictEqual(epoch.merge(2000, {}, 1000), { ts: 1000, pdop: 1.5, lat: 52.5, lon: 13.4 });
+    });
+
+    it('must ignore late data of a completed epoch', () => {
+        const epoch = new FixEpoch();
+        epoch.merge(1000, { lat: 52.5 }, 0);
+        epoch.merge(2000, { lat: 52.6 }, 1000);
+        assert.strictEqual(epoch.merge(1000, { quality: 1 }, 1010), null);
+        assert.deepStrictEqual(epoch.merge(3000, {}, 2000), { ts: 2000, lat: 52.6 });
+    });
+
+    it('flush must complete the epoch when no more data comes', () => {
+        const epoch = new FixEpoch();
+        assert.strictEqual(epoch.flush(1500, 0), null);
+        epoch.merge(1000, { lat: 52.5 }, 0);
+        assert.strictEqual(epoch.flush(1500, 1000), null);
+        assert.deepStrictEqual(epoch.flush(1500, 1500), { ts: 1000, lat: 52.5 });
+        assert.strictEqual(epoch.flush(1500, 3000), null);
+        // the receiver sends this epoch again after the pause
+        assert.strictEqual(epoch.merge(1000, { lat: 52.5 }, 3000), null);
+    });
+});
@@ -0,0 +1,103 @@
+'use strict';
+
+const assert = require('node:assert');
+const { distance, pointInPolygon } = require('../../build/lib/geo');
+const { Geofences, parseZones, zoneDistance } = require('../../build/lib/geofence');
+
+// 10 m to the north in degrees of latitude
+const STEP = 10 / 111195;
+const MARINA = { enabled: true, name: 'Marina', type: 'circle', latitude: 50, longitude: 10, radius: 100 };
+const FIELD = {
+    enabled: true,
+    name: 'Field 1',
+    type: 'polygon',
+    polygon: '48.1,11.5; 48.2,11.5; 48.2,11.6; 48.1,11.6',
+};
+
+describe('geofence', () => {
+    it('parseZones must report invalid zones', () => {
+        const errors = [];
+        const zones = parseZones(
+            [
+                MARINA,
+                FIELD,
+                { ...MARINA, enabled: false, name: 'Disabled' },
+                { ...MARINA, name: ' ' },
+                { ...MARINA, name: 'Marina' },
+                { ...MARINA, name: 'No radius', radius: 0 },
+                { ...MARINA, name: 'North pole', latitude: 91 },
+                { ...FIELD, name: 'Line', polygon: '48.1,11.5; 48.2,11.5' },
+                { ...FIELD, name: 'Text', polygon: '48.1,11.5; north; 48.2,11.6' },
+            ],
+            text => errors.push(text),
+        );
+        assert.deepStrictEqual(
+            zones.map(zone => zone.id),
+            ['Marina', 'Field_1'],
+        );
+        assert.deepStrictEqual(zones[0].center, [50, 10]);
+        assert.strictEqual(zones[1].polygon.length, 4);
+        assert.strictEqual(errors.length, 6);
+        assert.ok(errors[1].includes('defined twice'));
+        assert.strictEqual(parseZones(undefined, () => {}).length, 0);
+    });
+
+    it('must calculate the distance to the zone border', () => {
+        const [marina, field] = parseZones([MARINA, FIELD], () => {});
+        assert.ok(Math.abs(distance(50, 10, 50 + STEP, 10) - 10) < 0.01);
+        assert.ok(Math.abs(zoneDistance(marina, 50 + 3 * STEP, 10) + 70) < 0.01);
+        assert.ok(Math.abs(zoneDistance(marina, 50 + 15 * STEP, 10) - 50) < 0.01);
+        // 0.01° latitude inside of the southern edge
+        assert.ok(Math.abs(zoneDistance(field, 48.11, 11.55) + 1112) < 1);
+        assert.ok(zoneDistance(field, 48.05, 11.55) > 0);
+    });
+
+    it('pointInPolygon must work for concave polygons', () => {
+        // U shape open to the north
+        const polygon = [
+            [0, 0],
+            [0, 3],
+            [3, 3],
+            [3, 2],
+            [1, 2],
+            [1, 1],
+            [3, 1],
+            [3, 0],
+        ];
+        assert.ok(pointInPolygon(0.5, 1.5, polygon));
+        assert.ok(pointInPolygon(2, 0.5, polygon));
+        assert.ok(!pointInPolygon(2, 1.5, polygon));
+        assert.ok(!pointInPolygon(4, 1.5, polygon));
+    });
+
+    it('must enter at the border and leave only after the hysteresis', () => {
+        const zones = parseZones([MARINA], () => {});
+        const geofences = new Geofences(zones, 20);
+        let [update] = geofences.update(50 + 15 * STEP, 10, 1000);
+        assert.strictEqual(update.inside, false);
+        assert.strictEqual(update.event, null);
+        [update] = geofences.update(50 + 9 * STEP, 10, 2000);
+        assert.strictEqual(update.event, 'enter');
+        assert.strictEqual(update.lastEnter, 2000);
+        // drift on the border
+        [update] = geofences.update(50 + 11 * STEP, 10, 62000);
+        assert.strictEqual(update.inside, true);
+        assert.strictEqual(update.dwell, 60);
+        [update] = geofences.update(50 + 13 * STEP, 10, 92000);
+        assert.strictEqual(update.event, 'leave');
+        assert.strictEqual(update.lastLeave, 92000);
+        // the duration of the last stay
+        [update] = geofences.update(50 + 20 * STEP, 10, 100000);
+        assert.strictEqual(update.dwell, 90);
+        assert.strictEqual(update.distance, 100);
+    });
+
+    it('must continue with the restored status', () => {
+        const zones = parseZones([MARINA], () => {});
+        const geofences = new Geofences(zones, 20);
+        geofences.restore('Marina', { inside: true, lastEnter: 1000, lastLeave: 0 });
+        const [update] = geofences.update(50, 10, 11000);
+        assert.strictEqual(update.event, null);
+        assert.strictEqual(update.dwell, 10);
+    });
+});
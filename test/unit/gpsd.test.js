@@ -0,0 +1,62 @@
+'use strict';
+
+const assert = require('node:assert');
+const { readFileSync } = require('node:fs');
+const { GPSD_WATCH, gpsdFixQuality, gpsdSatellites, gpsdTimeOffset, parseGpsdReport } = require('../../build/lib/gpsd');
+
+// the canned reports of the integration test
+const REPORTS = readFileSync(`${__dirname}/../gpsd.txt`)
+    .toString()
+    .split('\n')
+    .filter(line => line);
+
+describe('gpsd', () => {
+    it('the WATCH command must enable the JSON reports', () => {
+        assert.ok(GPSD_WATCH.endsWith(';\n'));
+        assert.deepStrictEqual(JSON.parse(GPSD_WATCH.slice(7, -2)), { enable: true, json: true });
+    });
+
+    it('parseGpsdReport must read the reports and ignore other lines', () => {
+        assert.deepStrictEqual(
+            REPORTS.map(line => parseGpsdReport(line).class),
+            ['VERSION', 'DEVICES', 'WATCH', 'SKY', 'TPV', 'TOFF'],
+        );
+        assert.strictEqual(parseGpsdReport('$GPGGA,,,,,,0,,,,,,,,*66'), null);
+        assert.strictEqual(parseGpsdReport('{"class":"TPV",'), null);
+        assert.strictEqual(parseGpsdReport('{"mode":3}'), null);
+    });
+
+    it('gpsdFixQuality must map the TPV mode and status', () => {
+        const tpv = parseGpsdReport(REPORTS[4]);
+        // DGPS
+        assert.strictEqual(gpsdFixQuality(tpv), 2);
+        assert.strictEqual(gpsdFixQuality({ class: 'TPV', mode: 3 }), 1);
+        assert.strictEqual(gpsdFixQuality({ class: 'TPV', mode: 3, status: 3 }), 4);
+        assert.strictEqual(gpsdFixQuality({ class: 'TPV', mode: 3, status: 4 }), 5);
+        assert.strictEqual(gpsdFixQuality({ class: 'TPV', mode: 1, status: 2 }), 0);
+    });
+
+    it('gpsdSatellites must convert the SKY satellites', () => {
+        const satellites = gpsdSatellites(parseGpsdReport(REPORTS[3]));
+        assert.deepStrictEqual(satellites[2], {
+            constellation: 'GLONASS',
+            prn: 13,
+            elevation: 42,
+            azimuth: 48,
+            snr: 27,
+            used: true,
+        });
+        assert.strictEqual(satellites[3].constellation, 'Galileo');
+        // older gpsd versions without gnssid
+        assert.strictEqual(
+            gpsdSatellites({ class: 'SKY', satellites: [{ PRN: 70, used: false }] })[0].constellation,
+            'GLONASS',
+        );
+        // SKY reports with DOPs only
+        assert.deepStrictEqual(gpsdSatellites({ class: 'SKY', hdop: 1 }), []);
+    });
+
+    it('gpsdTimeOffset must return the offset of the system clock', () => {
+        assert.strictEqual(gpsdTimeOffset(parseGpsdReport(REPORTS[5])), 12.5);
+    });
+});
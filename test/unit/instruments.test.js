@@ -0,0 +1,82 @@
+'use strict';
+
+const assert = require('node:assert');
+const { parseInstrumentSentence, trueWind } = require('../../build/lib/instruments');
+
+/** Readings of a sentence as id -> value */
+function parse(sentence, depthOffset) {
+    const fields = sentence.replace(/^\$|\*..$/g, '').split(',');
+    const readings = parseInstrumentSentence(fields[0].slice(-3), fields, depthOffset);
+    return Object.fromEntries(readings.map(reading => [reading.id, reading.value]));
+}
+
+describe('instruments', () => {
+    it('must decode the depth', () => {
+        assert.deepStrictEqual(parse('$SDDBT,36.4,f,11.10,M,6.07,F', -0.5), { depth_transducer: 11.1, depth: 10.6 });
+        // feet only
+        assert.deepStrictEqual(parse('$SDDBT,10.0,f,,M,,F'), { depth_transducer: 3.05, depth: 3.05 });
+        // the offset of DPT is used instead of the configured one
+        assert.deepStrictEqual(parse('$SDDPT,11.10,0.4,*7E', -0.5), {
+            depth_transducer: 11.1,
+            transducer_offset: 0.4,
+            depth: 11.5,
+        });
+        assert.deepStrictEqual(parse('$SDDPT,,0.4,'), {});
+    });
+
+    it('must decode the wind and convert the speed to knots', () => {
+        assert.deepStrictEqual(parse('$WIMWV,045.0,T,10.0,N,A*15'), { wind_true_angle: 45, wind_true_speed: 10 });
+        assert.deepStrictEqual(parse('$WIMWV,-30.0,R,5.0,M,A'), {
+            wind_apparent_angle: 330,
+            wind_apparent_speed: 9.7,
+        });
+        assert.strictEqual(parse('$WIMWV,90,R,18.52,K,A').wind_apparent_speed, 10);
+        assert.strictEqual(parse('$WIMWV,90,R,10,S,A').wind_apparent_speed, 8.7);
+        // invalid data
+        assert.deepStrictEqual(parse('$WIMWV,90,R,10,N,V'), {});
+        assert.deepStrictEqual(parse('$WIVWR,30.0,L,8.0,N,,M,,K'), {
+            wind_apparent_angle: 330,
+            wind_apparent_speed: 8,
+        });
+        assert.deepStrictEqual(parse('$WIMWD,200.0,T,198.0,M,,N,5.0,M'), {
+            wind_true_direction: 200,
+            wind_true_speed: 9.7,
+        });
+    });
+
+    it('must decode the water temperature, speed and heading', () => {
+        assert.deepStrictEqual(parse('$YXMTW,18.5,C*1E'), { water_temperature: 18.5 });
+        assert.deepStrictEqual(parse('$VWVHW,,T,120.0,M,,N,11.0,K'), {
+            heading_magnetic: 120,
+            speed_through_water: 5.94,
+        });
+        assert.deepStrictEqual(parse('$HCHDG,98.3,2.0,W,3.5,E'), {
+            heading_magnetic: 96.3,
+            magnetic_deviation: -2,
+            magnetic_variation: 3.5,
+        });
+    });
+
+    it('must create states for the XDR transducers', () => {
+        const readings = parseInstrumentSentence(
+            'XDR',
+            'IIXDR,P,1.0213,B,Barometer,C,21.5,C,Air temp,U,12.6,V,'.split(','),
+        );
+        assert.deepStrictEqual(readings, [
+            { id: 'xdr_Barometer', value: 1021.3, common: { name: 'Barometer', role: 'value.pressure', unit: 'hPa' } },
+            { id: 'xdr_Air_temp', value: 21.5, common: { name: 'Air temp', role: 'value.temperature', unit: '°C' } },
+            // transducers without name are numbered
+            { id: 'xdr_U3', value: 12.6, common: { name: 'U3', role: 'value.voltage', unit: 'V' } },
+        ]);
+    });
+
+    it('trueWind must remove the motion of the boat', () => {
+        // head wind while motoring
+        assert.deepStrictEqual(trueWind(0, 10, 5, 0), { angle: 0, speed: 5, direction: 0 });
+        assert.deepStrictEqual(trueWind(0, 5, 5, 0), { angle: 0, speed: 0, direction: 0 });
+        // apparent wind from the beam comes from behind
+        assert.deepStrictEqual(trueWind(90, 10, 10, 0), { angle: 135, speed: 14.1, direction: 135 });
+        // the angle is relative to the heading, the direction to north
+        assert.deepStrictEqual(trueWind(45, 10, 5, 90, 80), { angle: 70.9, speed: 6.6, direction: 150.9 });
+    });
+});
@@ -0,0 +1,90 @@
+'use strict';
+
+const assert = require('node:assert');
+const { CHECKSUM_ERROR_MARK, NmeaCapture, captureFileName } = require('../../build/lib/nmeaCapture');
+
+/** Adapter with the files storage in memory */
+function createAdapter() {
+    const files = new Map();
+    return {
+        namespace: 'serial-gps.0',
+        files,
+        log: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+        writeFileAsync: async (_id, name, data) => {
+            files.set(name, data);
+        },
+        readFileAsync: async (_id, name) => {
+            if (!files.has(name)) {
+                throw new Error('Not exists');
+            }
+            return { file: Buffer.from(files.get(name)) };
+        },
+        readDirAsync: async (_id, dir) => {
+            if (![...files.keys()].some(name => name.startsWith(`${dir}/`))) {
+                throw new Error('Not exists');
+            }
+            return [...files.entries()]
+                .filter(([name]) => name.startsWith(`${dir}/`))
+                .map(([name, data]) => ({
+                    file: name.substring(dir.length + 1),
+                    isDir: false,
+                    stats: { size: data.length },
+                }));
+        },
+        delFileAsync: async (_id, name) => {
+            files.delete(name);
+        },
+    };
+}
+
+describe('nmeaCapture', () => {
+    const now = Date.now;
+    let time;
+
+    beforeEach(() => {
+        time = Date.UTC(2026, 9, 19, 8, 0, 0);
+        Date.now = () => time;
+    });
+
+    afterEach(() => {
+        Date.now = now;
+    });
+
+    it('captureFileName must use the UTC start time', () => {
+        assert.strictEqual(captureFileName(Date.UTC(2025, 11, 7, 18, 25, 53)), '2025-12-07_18-25-53.nmea');
+    });
+
+    it('must write the lines and mark checksum errors', async () => {
+        const adapter = createAdapter();
+        const capture = new NmeaCapture(adapter, { maxFileSize: 1000, maxFiles: 0 });
+        assert.deepStrictEqual(await capture.listFiles(), []);
+        await capture.add('$GPGSV,1,1,00*79', true);
+        await capture.add('$GPGSV,1,1,00*00', false);
+        const content = `$GPGSV,1,1,00*79\n${CHECKSUM_ERROR_MARK}$GPGSV,1,1,00*00\n`;
+        assert.strictEqual(capture.fileName, '2026-10-19_08-00-00.nmea');
+        assert.strictEqual(capture.fileSize, content.length);
+        // the current file is readable before it is written
+        assert.strictEqual(await capture.readFile(capture.fileName), content);
+        assert.strictEqual(adapter.files.size, 0);
+        await capture.flush();
+        assert.strictEqual(adapter.files.get('captures/2026-10-19_08-00-00.nmea'), content);
+        await assert.rejects(capture.readFile('../track.gpx'), /Invalid capture file/);
+    });
+
+    it('must start a new file at the size limit and delete the oldest files', async () => {
+        const adapter = createAdapter();
+        const capture = new NmeaCapture(adapter, { maxFileSize: 40, maxFiles: 2 });
+        for (let i = 0; i < 6; i++) {
+            time += 1000;
+            // 17 bytes with line end, two lines per file
+            await capture.add('$GPGSV,1,1,00*79', true);
+        }
+        await capture.close();
+        assert.deepStrictEqual(await capture.listFiles(), [
+            { file: '2026-10-19_08-00-03.nmea', size: 34 },
+            { file: '2026-10-19_08-00-05.nmea', size: 34 },
+        ]);
+        assert.strictEqual(capture.fileName, '');
+        assert.strictEqual(await capture.readFile('2026-10-19_08-00-05.nmea'), '$GPGSV,1,1,00*79\n$GPGSV,1,1,00*79\n');
+    });
+});
@@ -0,0 +1,69 @@
+'use strict';
+
+const assert = require('node:assert');
+const { createConnection } = require('node:net');
+const { NmeaServer, isSentenceAllowed, parseSentenceList } = require('../../build/lib/nmeaServer');
+
+const PORT = 29471;
+const adapter = { log: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} } };
+
+function wait(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function connect() {
+    const socket = createConnection({ host: '127.0.0.1', port: PORT });
+    socket.received = '';
+    socket.on('data', data => (socket.received += data.toString()));
+    socket.on('error', () => {});
+    await new Promise(resolve => socket.on('connect', resolve));
+    // let the server register the client
+    await wait(50);
+    return socket;
+}
+
+describe('nmeaServer', () => {
+    it('parseSentenceList must normalize the types', () => {
+        assert.deepStrictEqual(parseSentenceList(' gga, $GPRMC;!aivdm  vtg'), ['GGA', 'GPRMC', 'AIVDM', 'VTG']);
+        assert.deepStrictEqual(parseSentenceList(undefined), []);
+    });
+
+    it('isSentenceAllowed must match types with and without talker', () => {
+        assert.ok(isSentenceAllowed([], 'GNGSV'));
+        assert.ok(isSentenceAllowed(['GGA'], 'GNGGA'));
+        assert.ok(isSentenceAllowed(['GPRMC'], 'GPRMC'));
+        assert.ok(!isSentenceAllowed(['GPRMC'], 'GNRMC'));
+        assert.ok(!isSentenceAllowed(['GGA', 'RMC'], 'GPGSV'));
+    });
+
+    it('must forward allowed sentences to the clients and accept valid sentences from them', async () => {
+        const clients = [];
+        const fromClients = [];
+        const server = new NmeaServer(
+            adapter,
+            { tcpPort: PORT, udpPort: 0, udpAddress: '', sentences: ['GGA'], maxClients: 1, allowWrite: true },
+            count => clients.push(count),
+            sentence => fromClients.push(sentence),
+        );
+        server.start();
+        await wait(50);
+        const client = await connect();
+        const rejected = await connect();
+        try {
+            assert.strictEqual(server.clients, 1);
+            server.forward('$GPGGA,1*00', 'GPGGA');
+            server.forward('$GPGSV,1*00', 'GPGSV');
+            client.write('$PMTK220,1000*1F\r\n$PMTK220,1000*00\r\n');
+            await wait(100);
+            assert.strictEqual(client.received, '$GPGGA,1*00\r\n');
+            assert.strictEqual(rejected.received, '');
+            assert.deepStrictEqual(fromClients, ['$PMTK220,1000*1F']);
+            assert.strictEqual(server.bytesSent, 13);
+        } finally {
+            client.destroy();
+            rejected.destroy();
+            await server.stop();
+        }
+        assert.deepStrictEqual(clients, [1]);
+    });
+});
@@ -0,0 +1,97 @@
+'use strict';
+
+const assert = require('node:assert');
+const { ChunkedDecoder, ntripRequest, parseNtripResponse } = require('../../build/lib/ntrip');
+
+// start of an RTCM3 frame, binary data with bytes above 0x7f
+const RTCM = Buffer.from([0xd3, 0x00, 0x13, 0x3e, 0xd0, 0x0d, 0x0a, 0xff]);
+
+/** Decode the data split into the given parts */
+function decode(data, ...splits) {
+    const decoder = new ChunkedDecoder();
+    const output = [];
+    let start = 0;
+    for (const end of [...splits, data.length]) {
+        output.push(decoder.push(data.subarray(start, end)));
+        start = end;
+    }
+    return Buffer.concat(output);
+}
+
+describe('ntrip', () => {
+    it('must request the mountpoint', () => {
+        const options = {
+            host: 'caster.example',
+            port: 2101,
+            mountpoint: '/RTCM3',
+            username: 'user',
+            password: 'secret',
+            version: 2,
+        };
+        assert.strictEqual(
+            ntripRequest(options),
+            'GET /RTCM3 HTTP/1.1\r\nUser-Agent: NTRIP ioBroker.serial-gps\r\nHost: caster.example:2101\r\n' +
+                'Ntrip-Version: Ntrip/2.0\r\nConnection: close\r\nAuthorization: Basic dXNlcjpzZWNyZXQ=\r\n\r\n',
+        );
+        assert.strictEqual(
+            ntripRequest({ ...options, username: '', version: 1 }),
+            'GET /RTCM3 HTTP/1.0\r\nUser-Agent: NTRIP ioBroker.serial-gps\r\n\r\n',
+        );
+    });
+
+    it('must pass the binary data after the header', () => {
+        const body = RTCM.toString('latin1');
+        assert.deepStrictEqual(parseNtripResponse(`ICY 200 OK\r\n${body}`), { body: RTCM, chunked: false });
+        assert.deepStrictEqual(
+            parseNtripResponse(
+                `HTTP/1.1 200 OK\r\nContent-Type: gnss/data\r\nTransfer-Encoding: chunked\r\n\r\n${body}`,
+            ),
+            { body: RTCM, chunked: true },
+        );
+        assert.deepStrictEqual(parseNtripResponse('HTTP/1.0 200 OK\r\n\r\n'), {
+            body: Buffer.alloc(0),
+            chunked: false,
+        });
+    });
+
+    it('must wait for the complete header', () => {
+        assert.strictEqual(parseNtripResponse('ICY 200'), null);
+        assert.strictEqual(parseNtripResponse('HTTP/1.1 200 OK\r\nContent-Type: gnss/data\r\n'), null);
+        assert.deepStrictEqual(parseNtripResponse('x'.repeat(9000)), { error: 'invalid response' });
+    });
+
+    it('must report rejected requests', () => {
+        assert.deepStrictEqual(parseNtripResponse('SOURCETABLE 200 OK\r\nSTR;RTCM3;'), {
+            error: 'mountpoint not found',
+        });
+        assert.deepStrictEqual(
+            parseNtripResponse('HTTP/1.1 200 OK\r\nContent-Type: gnss/sourcetable\r\n\r\nSTR;RTCM3;'),
+            { error: 'mountpoint not found' },
+        );
+        assert.deepStrictEqual(parseNtripResponse('HTTP/1.1 401 Unauthorized\r\n\r\n'), {
+            error: 'HTTP/1.1 401 Unauthorized',
+        });
+    });
+
+    it('must remove the chunk sizes', () => {
+        const data = Buffer.concat([
+            Buffer.from('8\r\n'),
+            RTCM,
+            Buffer.from('\r\n10;ext=1\r\n'),
+            RTCM,
+            RTCM,
+            Buffer.from('\r\n'),
+        ]);
+        const expected = Buffer.concat([RTCM, RTCM, RTCM]);
+        assert.deepStrictEqual(decode(data), expected);
+        // in the CRLF after the size, in the chunk, in the CRLF after the chunk and in the chunk size
+        assert.deepStrictEqual(decode(data, 2, 5, 12, 14), expected);
+        assert.deepStrictEqual(decode(data, ...data.keys()), expected);
+    });
+
+    it('must ignore the trailer after the last chunk', () => {
+        const data = Buffer.concat([Buffer.from('8\r\n'), RTCM, Buffer.from('\r\n0\r\nDate: today\r\n\r\n')]);
+        assert.deepStrictEqual(decode(data), RTCM);
+        assert.deepStrictEqual(decode(data, 14, 15, 17), RTCM);
+    });
+});
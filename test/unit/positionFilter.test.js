@@ -0,0 +1,62 @@
+'use strict';
+
+const assert = require('node:assert');
+const { PositionFilter } = require('../../build/lib/positionFilter');
+
+// 10 m to the north in degrees of latitude
+const STEP = 10 / 111195;
+
+describe('positionFilter', () => {
+    for (const mode of ['kalman', 'ema']) {
+        it(`${mode} must smooth a jump of the position`, () => {
+            const filter = new PositionFilter({ mode, stationarySpeed: 0, maxSpeed: 300 });
+            assert.deepStrictEqual(filter.update({ ts: 1000, lat: 50, lon: 10, hdop: 1, speed: 0 }), {
+                lat: 50,
+                lon: 10,
+                moving: true,
+            });
+            const result = filter.update({ ts: 2000, lat: 50 + STEP, lon: 10, hdop: 1, speed: 0 });
+            assert.ok(result.lat > 50 && result.lat < 50 + STEP);
+            // a fix with bad HDOP has less weight
+            const noisy = new PositionFilter({ mode, stationarySpeed: 0, maxSpeed: 300 });
+            noisy.update({ ts: 1000, lat: 50, lon: 10, hdop: 1, speed: 0 });
+            assert.ok(noisy.update({ ts: 2000, lat: 50 + STEP, lon: 10, hdop: 5, speed: 0 }).lat < result.lat);
+        });
+    }
+
+    it('must return the same position for further sentences of the same epoch', () => {
+        const filter = new PositionFilter({ mode: 'kalman', stationarySpeed: 0, maxSpeed: 300 });
+        filter.update({ ts: 1000, lat: 50, lon: 10, hdop: 1, speed: 0 });
+        const result = filter.update({ ts: 2000, lat: 50 + STEP, lon: 10, hdop: 1, speed: 0 });
+        assert.deepStrictEqual(filter.update({ ts: 2000, lat: 50 + STEP, lon: 10, hdop: 1, speed: 0 }), result);
+    });
+
+    it('must reject outliers until the jump is confirmed', () => {
+        const filter = new PositionFilter({ mode: 'kalman', stationarySpeed: 0, maxSpeed: 300 });
+        filter.update({ ts: 1000, lat: 50, lon: 10, hdop: 1, speed: 0 });
+        // 11 km in one second
+        assert.strictEqual(filter.update({ ts: 2000, lat: 50.1, lon: 10, hdop: 1, speed: 0 }), null);
+        assert.strictEqual(filter.update({ ts: 3000, lat: 50.1, lon: 10, hdop: 1, speed: 0 }), null);
+        assert.deepStrictEqual(filter.update({ ts: 4000, lat: 50.1, lon: 10, hdop: 1, speed: 0 }), {
+            lat: 50.1,
+            lon: 10,
+            moving: true,
+        });
+    });
+
+    it('must hold the position while standing', () => {
+        const filter = new PositionFilter({ mode: 'kalman', stationarySpeed: 2, maxSpeed: 300 });
+        let result;
+        for (let i = 1; i <= 4; i++) {
+            result = filter.update({ ts: i * 1000, lat: 50, lon: 10, hdop: 1, speed: 0.5 });
+        }
+        assert.strictEqual(result.moving, false);
+        // GPS noise does not move the held position
+        result = filter.update({ ts: 5000, lat: 50 + STEP, lon: 10, hdop: 1, speed: 0.5 });
+        assert.deepStrictEqual(result, { lat: 50, lon: 10, moving: false });
+        // driving releases the hold
+        result = filter.update({ ts: 6000, lat: 50 + 2 * STEP, lon: 10, hdop: 1, speed: 30 });
+        assert.strictEqual(result.moving, true);
+        assert.ok(result.lat > 50);
+    });
+});
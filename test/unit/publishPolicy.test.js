@@ -0,0 +1,60 @@
+'use strict';
+
+const assert = require('node:assert');
+const { PublishPolicy, publishGroup } = require('../../build/lib/publishPolicy');
+
+// 10 m to the north in degrees of latitude
+const STEP = 10 / 111195;
+
+describe('publishPolicy', () => {
+    it('publishGroup must group the measured values', () => {
+        assert.strictEqual(publishGroup('gps.longitude'), 'position');
+        assert.strictEqual(publishGroup('gps.speed_knots'), 'speed');
+        assert.strictEqual(publishGroup('gps.heading_true'), 'course');
+        assert.strictEqual(publishGroup('gps.altitude'), 'altitude');
+        assert.strictEqual(publishGroup('satellites.used'), 'default');
+    });
+
+    it('must write every change and refresh once per minute without rules', () => {
+        const policy = new PublishPolicy();
+        assert.ok(policy.shouldWrite('gps.speed_kmh', 10, undefined, 0));
+        assert.ok(policy.shouldWrite('gps.speed_kmh', 10.1, { val: 10, ts: 0 }, 100));
+        assert.ok(!policy.shouldWrite('gps.speed_kmh', 10, { val: 10, ts: 0 }, 59999));
+        assert.ok(policy.shouldWrite('gps.speed_kmh', 10, { val: 10, ts: 0 }, 60000));
+        assert.ok(policy.shouldWrite('gps.mode', '3D', { val: '2D', ts: 0 }, 100));
+    });
+
+    it('must apply the deadband, minimal interval and refresh of the group', () => {
+        const policy = new PublishPolicy({
+            speed: { minInterval: 1000, deadband: 1, refresh: 10000 },
+            course: { minInterval: 0, deadband: 5, refresh: 0 },
+        });
+        const prev = { val: 10, ts: 0 };
+        // too early
+        assert.ok(!policy.shouldWrite('gps.speed_kmh', 20, prev, 999));
+        assert.ok(policy.shouldWrite('gps.speed_kmh', 20, prev, 1000));
+        // within the deadband
+        assert.ok(!policy.shouldWrite('gps.speed_kmh', 10.9, prev, 5000));
+        assert.ok(policy.shouldWrite('gps.speed_kmh', 10.9, prev, 10000));
+        // knots are compared in km/h
+        assert.ok(policy.shouldWrite('gps.speed_knots', 10.6, prev, 1000));
+        // 358° and 2° are 4° apart
+        assert.ok(!policy.shouldWrite('gps.course', 2, { val: 358, ts: 0 }, 1000));
+        assert.ok(policy.shouldWrite('gps.course', 4, { val: 358, ts: 0 }, 1000));
+        // never refreshed
+        assert.ok(!policy.shouldWrite('gps.course', 358, { val: 358, ts: 0 }, 1000000));
+    });
+
+    it('must decide the position by the distance', () => {
+        const policy = new PublishPolicy({ position: { minInterval: 0, deadband: 20, refresh: 30000 } });
+        const prev = { lat: 50, lon: 10, ts: 0 };
+        assert.ok(policy.shouldWritePosition(50, 10, null, 0));
+        assert.ok(!policy.shouldWritePosition(50 + STEP, 10, prev, 1000));
+        assert.ok(policy.shouldWritePosition(50 + 3 * STEP, 10, prev, 1000));
+        assert.ok(policy.shouldWritePosition(50, 10, prev, 30000));
+        // without deadband every change
+        const all = new PublishPolicy();
+        assert.ok(all.shouldWritePosition(50, 10.000001, prev, 1000));
+        assert.ok(!all.shouldWritePosition(50, 10, prev, 1000));
+    });
+});
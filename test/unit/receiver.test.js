@@ -0,0 +1,100 @@
+'use strict';
+
+const assert = require('node:assert');
+const {
+    ReceiverControl,
+    baudRateCommands,
+    detectReceiverType,
+    nmeaCommand,
+    restartCommands,
+    sentenceCommands,
+    updateRateCommands,
+} = require('../../build/lib/receiver');
+const { UBX_ACK_ACK, UBX_ACK_NAK, UbxNmeaFramer } = require('../../build/lib/ubx');
+
+function wait(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('receiver', () => {
+    it('nmeaCommand must add the checksum and line end', () => {
+        assert.strictEqual(nmeaCommand('PMTK220,1000').toString(), '$PMTK220,1000*1F\r\n');
+        assert.strictEqual(nmeaCommand('PMTK101').toString(), '$PMTK101*32\r\n');
+    });
+
+    it('must build the update rate commands', () => {
+        assert.strictEqual(updateRateCommands('mtk', 5)[0].name, 'PMTK220,200');
+        const [command] = updateRateCommands('ublox', 10);
+        // a valid UBX-CFG-RATE frame with 100 ms
+        const [frame] = new UbxNmeaFramer().push(command.data);
+        assert.strictEqual(frame.type, 'ubx');
+        assert.strictEqual(frame.id, 0x0608);
+        assert.strictEqual(frame.payload.readUInt16LE(0), 100);
+        assert.throws(() => updateRateCommands('sirf', 5), /1 Hz/);
+        assert.throws(() => updateRateCommands('mtk', 0), /Invalid update rate/);
+    });
+
+    it('must build the sentence commands', () => {
+        assert.strictEqual(
+            sentenceCommands('mtk', ['gga', 'RMC'])[0].name,
+            'PMTK314,0,1,0,1,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0',
+        );
+        const ublox = sentenceCommands('ublox', ['GGA']);
+        assert.strictEqual(ublox.length, 7);
+        assert.strictEqual(ublox[0].name, 'UBX-CFG-MSG GGA on');
+        assert.strictEqual(ublox[1].name, 'UBX-CFG-MSG GLL off');
+        assert.strictEqual(sentenceCommands('sirf', ['GSV'])[3].name, 'PSRF103,03,00,01,01');
+        assert.throws(() => sentenceCommands('mtk', ['GGA', 'GST']), /GST/);
+    });
+
+    it('must build the baud rate and restart commands', () => {
+        // u-blox must accept RTCM3 for the NTRIP corrections
+        assert.strictEqual(baudRateCommands('ublox', 115200)[0].name, 'PUBX,41,1,0023,0003,115200,0');
+        assert.strictEqual(baudRateCommands('mtk', 38400)[0].name, 'PMTK251,38400');
+        assert.throws(() => baudRateCommands('mtk', 1234), /Invalid baud rate/);
+        assert.strictEqual(restartCommands('mtk', 'cold')[0].name, 'PMTK103');
+        assert.strictEqual(restartCommands('sirf', 'warm')[0].name, 'PSRF101,0,0,0,0,0,0,12,2');
+        assert.strictEqual(restartCommands('ublox', 'hot')[0].ack, undefined);
+    });
+
+    it('must detect the receiver type', () => {
+        assert.strictEqual(detectReceiverType({ type: 'nmea', line: '$PMTK011,MTKGPS*08' }), 'mtk');
+        assert.strictEqual(detectReceiverType({ type: 'nmea', line: '$GPTXT,01,01,02,u-blox ag*50' }), 'ublox');
+        assert.strictEqual(detectReceiverType({ type: 'nmea', line: '$GPTXT,01,01,02,SiRF Binary*00' }), 'sirf');
+        assert.strictEqual(detectReceiverType({ type: 'ubx', id: 0x0107, payload: Buffer.alloc(0) }), 'ublox');
+        assert.strictEqual(detectReceiverType({ type: 'nmea', line: '$GPGGA,,,,,,0,,,,,,,,*66' }), null);
+    });
+
+    it('must send the commands one after another and wait for the acknowledgements', async () => {
+        const written = [];
+        const control = new ReceiverControl(data => written.push(data) > 0, null);
+        const rate = control.send(updateRateCommands('mtk', 1));
+        // queued until the first command is acknowledged
+        const sentences = control.send(sentenceCommands('ublox', ['GGA']).slice(0, 2));
+        await wait(10);
+        assert.strictEqual(written.length, 1);
+        // the acknowledgement of another command is ignored, the type is detected from it
+        assert.strictEqual(control.handleFrame({ type: 'nmea', line: '$PMTK001,314,3*36' }), 'mtk');
+        control.handleFrame({ type: 'nmea', line: '$PMTK001,220,3*30' });
+        assert.deepStrictEqual(await rate, [{ command: 'PMTK220,1000', result: 'ack' }]);
+
+        await wait(10);
+        control.handleFrame({ type: 'ubx', id: UBX_ACK_ACK, payload: Buffer.from([0x06, 0x01]) });
+        await wait(10);
+        control.handleFrame({ type: 'ubx', id: UBX_ACK_NAK, payload: Buffer.from([0x06, 0x01]) });
+        assert.deepStrictEqual(await sentences, [
+            { command: 'UBX-CFG-MSG GGA on', result: 'ack' },
+            { command: 'UBX-CFG-MSG GLL off', result: 'nak' },
+        ]);
+        assert.strictEqual(written.length, 3);
+        // the type is detected only once
+        assert.strictEqual(control.type, 'mtk');
+    });
+
+    it('must fail if the receiver is not connected', async () => {
+        const control = new ReceiverControl(() => false, 'mtk');
+        await assert.rejects(control.send(restartCommands('mtk', 'hot')), /not connected/);
+        // the queue continues after an error
+        await assert.rejects(control.send(updateRateCommands('mtk', 1)), /not connected/);
+    });
+});
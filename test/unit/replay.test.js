@@ -0,0 +1,125 @@
+'use strict';
+
+const assert = require('node:assert');
+const {
+    ReplayPlayer,
+    formatCoordinate,
+    formatTime,
+    parseNmeaLog,
+    shiftSentenceTime,
+    trackToNmea,
+} = require('../../build/lib/replay');
+
+function wait(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('replay', () => {
+    it('parseNmeaLog must group the sentences by their time', () => {
+        const frames = parseNmeaLog(
+            [
+                'GPGGA,100000.00,4800.0000,N,01130.0000,E,1,07,1.1,520.0,M,47.0,M,,*61',
+                '$GPGSV,1,1,00*79',
+                '# comment',
+                '$GPGGA,100001.00,4800.0000,N,01130.0000,E,1,07,1.1,520.0,M,47.0,M,,*60',
+                '$GPRMC,100001.00,A,4800.0000,N,01130.0000,E,0.0,0.0,191026,,,A*5C',
+                // receiver was off for 10 minutes
+                '$GPGGA,101001.00,4800.0000,N,01130.0000,E,1,07,1.1,520.0,M,47.0,M,,*61',
+            ].join('\r\n'),
+        );
+        assert.deepStrictEqual(
+            frames.map(frame => [frame.offset, frame.lines.length]),
+            [
+                [0, 2],
+                [1000, 2],
+                [11000, 1],
+            ],
+        );
+        // the missing "$" is added
+        assert.ok(frames[0].lines[0].startsWith('$GPGGA'));
+    });
+
+    it('parseNmeaLog must continue over midnight and time logs without times', () => {
+        const midnight = parseNmeaLog(
+            '$GPGGA,235959.00,4800.0000,N,01130.0000,E,1,07,1.1,520.0,M,47.0,M,,*61\n' +
+                '$GPGGA,000000.00,4800.0000,N,01130.0000,E,1,07,1.1,520.0,M,47.0,M,,*60\n',
+        );
+        assert.deepStrictEqual(
+            midnight.map(frame => frame.offset),
+            [0, 1000],
+        );
+        const untimed = parseNmeaLog('$GPGSA,A,3*30\n$GPGSV,1,1,00*79\n$GPGSA,A,3*30\n$GPGSV,1,1,00*79\n');
+        assert.deepStrictEqual(
+            untimed.map(frame => frame.offset),
+            [0, 1000],
+        );
+    });
+
+    it('must format times and coordinates like NMEA', () => {
+        assert.strictEqual(formatTime(new Date(Date.UTC(2026, 9, 19, 8, 5, 3, 450)), 2), '080503.45');
+        assert.strictEqual(formatTime(new Date(Date.UTC(2026, 9, 19, 8, 5, 3, 450)), 0), '080503');
+        assert.deepStrictEqual(formatCoordinate(-8.5, false), ['00830.00000', 'W']);
+        assert.deepStrictEqual(formatCoordinate(-33.25, true), ['3315.00000', 'S']);
+        // the minutes must not be rounded to 60
+        assert.deepStrictEqual(formatCoordinate(48 - 1e-9, true), ['4800.00000', 'N']);
+    });
+
+    it('trackToNmea must create GGA and RMC for every point', () => {
+        const frames = trackToNmea({
+            name: 'Trip',
+            segments: [
+                [
+                    { ts: Date.UTC(2026, 9, 19, 10, 0, 0), lat: 50, lon: 10, alt: 100 },
+                    { ts: Date.UTC(2026, 9, 19, 10, 0, 1), lat: 50 + 10 / 111195, lon: 10 },
+                ],
+                [{ ts: Date.UTC(2026, 9, 19, 10, 5, 0), lat: 50.1, lon: 10, hdop: 1.2 }],
+            ],
+        });
+        assert.deepStrictEqual(
+            frames.map(frame => frame.offset),
+            [0, 1000, 11000],
+        );
+        assert.deepStrictEqual(frames[0].lines, [
+            '$GPGGA,100000.00,5000.00000,N,01000.00000,E,1,,,100.0,M,,M,,*58',
+            '$GPRMC,100000.00,A,5000.00000,N,01000.00000,E,0.00,0.0,191026,,,A*66',
+        ]);
+        // 10 m in one second
+        assert.strictEqual(frames[1].lines[1].split(',')[7], '19.44');
+        // no speed from the last point of the previous segment
+        assert.strictEqual(frames[2].lines[1].split(',')[7], '0.00');
+    });
+
+    it('shiftSentenceTime must move the time and date', () => {
+        assert.strictEqual(
+            shiftSentenceTime('$GPRMC,235959.50,A,4800.0000,N,01130.0000,E,0.0,0.0,191026,,,A*58', 1000),
+            '$GPRMC,000000.50,A,4800.0000,N,01130.0000,E,0.0,0.0,201026,,,A*53',
+        );
+        assert.strictEqual(shiftSentenceTime('$GPGSV,1,1,00*79', 1000), '$GPGSV,1,1,00*79');
+    });
+
+    it('ReplayPlayer must play the frames and keep the times increasing after a jump back', async () => {
+        const frames = parseNmeaLog(
+            '$GPGGA,100000.00,4800.0000,N,01130.0000,E,1,07,1.1,520.0,M,47.0,M,,*61\n' +
+                '$GPGGA,100001.00,4800.0000,N,01130.0000,E,1,07,1.1,520.0,M,47.0,M,,*60\n',
+        );
+        const sent = [];
+        const player = new ReplayPlayer(
+            frames,
+            { speed: 100, loop: false },
+            async data => {
+                sent.push(data.toString().split(',')[1]);
+            },
+            () => {},
+        );
+        assert.strictEqual(player.duration, 1);
+        player.play();
+        await wait(100);
+        assert.ok(!player.playing);
+        assert.strictEqual(player.position, 1);
+        player.seek(0);
+        player.play();
+        await wait(100);
+        player.stop();
+        assert.deepStrictEqual(sent, ['100000.00', '100001.00', '100002.00', '100003.00']);
+    });
+});
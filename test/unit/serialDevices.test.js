@@ -0,0 +1,47 @@
+'use strict';
+
+const assert = require('node:assert');
+const { SerialDeviceWatcher, describePort, findPortByIdentity, usbIdentity } = require('../../build/lib/serialDevices');
+
+const UBLOX = {
+    path: '/dev/ttyACM0',
+    manufacturer: 'u-blox AG',
+    vendorId: '1546',
+    productId: '01A9',
+    serialNumber: 'AB:12',
+};
+const ONBOARD = { path: '/dev/ttyS0' };
+
+describe('serialDevices', () => {
+    it('usbIdentity must combine the IDs and serial number', () => {
+        assert.strictEqual(usbIdentity(UBLOX), '1546:01a9:AB:12');
+        assert.strictEqual(usbIdentity({ ...UBLOX, serialNumber: undefined }), '1546:01a9');
+        assert.strictEqual(usbIdentity(ONBOARD), '');
+    });
+
+    it('describePort must add the manufacturer and IDs', () => {
+        assert.strictEqual(describePort(UBLOX), '/dev/ttyACM0 - u-blox AG (1546:01A9)');
+        assert.strictEqual(describePort(ONBOARD), '/dev/ttyS0');
+    });
+
+    it('findPortByIdentity must find the device on another path', () => {
+        const moved = { ...UBLOX, path: '/dev/ttyACM1' };
+        const other = { ...UBLOX, path: '/dev/ttyACM2', serialNumber: 'CD:34' };
+        const ports = [ONBOARD, other, moved];
+        assert.strictEqual(findPortByIdentity(ports, '1546:01a9:AB:12'), moved);
+        // the IDs are not case sensitive, the serial number is
+        assert.strictEqual(findPortByIdentity(ports, ' 1546:01A9:CD:34 '), other);
+        assert.strictEqual(findPortByIdentity(ports, '1546:01a9:ab:12'), undefined);
+        // without serial number the first device matches
+        assert.strictEqual(findPortByIdentity(ports, '1546:01a9'), other);
+        assert.strictEqual(findPortByIdentity(ports, '067b:2303'), undefined);
+    });
+
+    it('SerialDeviceWatcher must report the added and removed ports', () => {
+        const watcher = new SerialDeviceWatcher();
+        assert.strictEqual(watcher.update([ONBOARD, UBLOX]), null);
+        assert.deepStrictEqual(watcher.update([ONBOARD, UBLOX]), { added: [], removed: [] });
+        const moved = { ...UBLOX, path: '/dev/ttyACM1' };
+        assert.deepStrictEqual(watcher.update([ONBOARD, moved]), { added: [moved], removed: ['/dev/ttyACM0'] });
+    });
+});
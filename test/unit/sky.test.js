@@ -0,0 +1,76 @@
+'use strict';
+
+const assert = require('node:assert');
+const { SkyView } = require('../../build/lib/sky');
+
+/** Fields of a sentence without "$" and checksum, as the adapter passes them */
+function fields(sentence) {
+    return sentence.replace(/^\$|\*..$/g, '').split(',');
+}
+
+describe('sky', () => {
+    const now = Date.now;
+    let time;
+
+    beforeEach(() => {
+        time = Date.UTC(2026, 9, 19, 8, 0, 0);
+        Date.now = () => time;
+    });
+
+    afterEach(() => {
+        Date.now = now;
+    });
+
+    it('must assemble the GSV messages of a talker', () => {
+        const sky = new SkyView();
+        assert.strictEqual(
+            sky.addGsv('GP', fields('$GPGSV,2,1,05,10,63,137,17,07,61,098,15,05,59,290,20,08,54,157,30')),
+            false,
+        );
+        // nothing is shown before the set is complete
+        assert.strictEqual(sky.getSummary().inView, 0);
+        assert.strictEqual(sky.addGsv('GP', fields('$GPGSV,2,2,05,02,39,223,')), true);
+        const summary = sky.getSummary();
+        assert.strictEqual(summary.inView, 5);
+        assert.deepStrictEqual(
+            summary.satellites.map(sat => sat.prn),
+            [2, 5, 7, 8, 10],
+        );
+        // not tracked
+        assert.strictEqual(summary.satellites[0].snr, null);
+        assert.strictEqual(summary.snrMax, 30);
+        assert.strictEqual(summary.snrMean, 20.5);
+    });
+
+    it('must drop a set with a lost message', () => {
+        const sky = new SkyView();
+        sky.addGsv('GP', fields('$GPGSV,3,1,09,10,63,137,17,07,61,098,15,05,59,290,20,08,54,157,30'));
+        assert.strictEqual(sky.addGsv('GP', fields('$GPGSV,3,3,09,02,39,223,')), false);
+        assert.strictEqual(sky.getSummary().inView, 0);
+    });
+
+    it('must count the satellites per constellation and mark the used ones', () => {
+        const sky = new SkyView();
+        sky.addGsv('GP', fields('$GPGSV,1,1,02,10,63,137,17,42,40,200,33'));
+        sky.addGsv('GL', fields('$GLGSV,1,1,02,65,20,010,25,66,30,020,'));
+        sky.addGsv('GA', fields('$GAGSV,1,1,01,05,45,300,28'));
+        // GN talker with NMEA 4.10 system IDs
+        sky.addGsa('GN', fields('$GNGSA,A,3,10,,,,,,,,,,,,1.5,0.9,1.2,1'));
+        sky.addGsa('GN', fields('$GNGSA,A,3,65,66,,,,,,,,,,,1.5,0.9,1.2,2'));
+        const summary = sky.getSummary();
+        // 42 is SBAS and not counted
+        assert.deepStrictEqual(summary.perConstellation, { GPS: 1, GLONASS: 2, Galileo: 1, BeiDou: 0, QZSS: 0 });
+        assert.strictEqual(summary.used, 3);
+        const used = summary.satellites.filter(sat => sat.used).map(sat => `${sat.constellation}/${sat.prn}`);
+        assert.deepStrictEqual(used, ['GLONASS/65', 'GLONASS/66', 'GPS/10']);
+    });
+
+    it('must forget talkers that are not received anymore', () => {
+        const sky = new SkyView();
+        sky.addGsv('GP', fields('$GPGSV,1,1,01,10,63,137,17'));
+        sky.addGsa('GP', fields('$GPGSA,A,3,10,,,,,,,,,,,,1.5,0.9,1.2'));
+        time += 31000;
+        assert.strictEqual(sky.getSummary().inView, 0);
+        assert.strictEqual(sky.getUsedCount(), 0);
+    });
+});
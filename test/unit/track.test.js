@@ -0,0 +1,71 @@
+'use strict';
+
+const assert = require('node:assert');
+const {
+    filterTrack,
+    formatTrack,
+    parseTrack,
+    trackFileDate,
+    trackFileName,
+    trackFormatOfFile,
+} = require('../../build/lib/track');
+
+const TRACK = {
+    name: 'Trip <1> & "2"',
+    segments: [
+        [
+            { ts: Date.UTC(2026, 9, 19, 10, 0, 0), lat: 43.527715, lon: 15.96399, alt: 12.5, hdop: 0.8 },
+            { ts: Date.UTC(2026, 9, 19, 10, 0, 5), lat: 43.5278, lon: 15.9641, alt: 13, hdop: 0.9 },
+        ],
+        // after a fix loss
+        [{ ts: Date.UTC(2026, 9, 19, 10, 5, 0), lat: 43.53, lon: 15.97, alt: 14, hdop: 1.2 }],
+    ],
+};
+
+describe('track', () => {
+    it('must read a GPX track as written', () => {
+        const text = formatTrack(TRACK, 'gpx');
+        assert.ok(text.includes('<name>Trip &lt;1&gt; &amp; &quot;2&quot;</name>'));
+        assert.strictEqual(text.split('<trkseg>').length, 3);
+        const track = parseTrack(text, 'gpx');
+        assert.deepStrictEqual(track.segments, TRACK.segments);
+    });
+
+    it('must read a KML track as written', () => {
+        const track = parseTrack(formatTrack(TRACK, 'kml'), 'kml');
+        // KML has no HDOP
+        assert.deepStrictEqual(
+            track.segments,
+            TRACK.segments.map(segment => segment.map(({ hdop: _hdop, ...p }) => p)),
+        );
+    });
+
+    it('must read a GeoJSON track as written', () => {
+        const text = formatTrack(TRACK, 'geojson');
+        const geojson = JSON.parse(text);
+        assert.strictEqual(geojson.features[0].geometry.type, 'MultiLineString');
+        assert.deepStrictEqual(geojson.features[0].geometry.coordinates[1], [[15.97, 43.53, 14]]);
+        const track = parseTrack(text, 'geojson');
+        assert.strictEqual(track.name, TRACK.name);
+        assert.deepStrictEqual(
+            track.segments,
+            TRACK.segments.map(segment => segment.map(({ hdop: _hdop, ...p }) => p)),
+        );
+    });
+
+    it('filterTrack must remove points outside of the time range and empty segments', () => {
+        const track = filterTrack(TRACK, Date.UTC(2026, 9, 19, 10, 0, 1), Date.UTC(2026, 9, 19, 10, 1, 0));
+        assert.deepStrictEqual(track.segments, [[TRACK.segments[0][1]]]);
+    });
+
+    it('must name the files per day or per trip', () => {
+        const ts = Date.UTC(2026, 9, 19, 8, 30, 15);
+        assert.strictEqual(trackFileName(ts, false, 'gpx'), '2026-10-19.gpx');
+        assert.strictEqual(trackFileName(ts, true, 'kml'), '2026-10-19_08-30-15.kml');
+        assert.strictEqual(trackFileDate('2026-10-19.gpx'), Date.UTC(2026, 9, 19));
+        assert.strictEqual(trackFileDate('2026-10-19_08-30-15.kml'), ts);
+        assert.strictEqual(trackFileDate('notes.txt'), 0);
+        assert.strictEqual(trackFormatOfFile('2026-10-19.GeoJSON'), 'geojson');
+        assert.strictEqual(trackFormatOfFile('2026-10-19.txt'), null);
+    });
+});
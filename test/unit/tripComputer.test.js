@@ -0,0 +1,63 @@
+'use strict';
+
+const assert = require('node:assert');
+const { TripComputer } = require('../../build/lib/tripComputer');
+
+const OPTIONS = { startSpeed: 5, stopSpeed: 3, startDistance: 50, stopTimeout: 60000, historySize: 2 };
+// 10 m to the north in degrees of latitude
+const STEP = 10 / 111195;
+
+describe('tripComputer', () => {
+    it('must detect a trip and count the distance', () => {
+        const computer = new TripComputer(OPTIONS, 1000, []);
+        computer.update({ ts: 0, lat: 50, lon: 10, speed: 0 });
+        let started = 0;
+        // 20 s with 36 km/h
+        for (let i = 1; i <= 20; i++) {
+            const result = computer.update({ ts: i * 1000, lat: 50 + i * STEP, lon: 10, speed: 36 });
+            if (result.started) {
+                started = i;
+            }
+        }
+        // the trip starts 50 m away from the stop
+        assert.ok(started >= 5 && started <= 6, `started at ${started}`);
+        assert.ok(computer.active);
+        assert.ok(Math.abs(computer.odometer - 1200) < 1);
+        assert.ok(Math.abs(computer.trip.distance - 200) < 1);
+        assert.strictEqual(computer.trip.start, 0);
+        assert.strictEqual(computer.trip.movingTime, 20000);
+        assert.strictEqual(computer.trip.maxSpeed, 36);
+
+        // standing until the stop timeout
+        const lat = 50 + 20 * STEP;
+        let ended = null;
+        for (let ts = 30000; ts <= 90000 && !ended; ts += 10000) {
+            ended = computer.update({ ts, lat, lon: 10, speed: 0 }).ended;
+        }
+        assert.ok(ended);
+        assert.strictEqual(ended.end, 20000);
+        assert.ok(!computer.active);
+        assert.strictEqual(computer.history.length, 1);
+    });
+
+    it('must count each epoch only once', () => {
+        const computer = new TripComputer(OPTIONS, 0, []);
+        computer.update({ ts: 0, lat: 50, lon: 10, speed: 36 });
+        computer.update({ ts: 1000, lat: 50 + STEP, lon: 10, speed: 36 });
+        // RMC after GGA with the same time
+        const result = computer.update({ ts: 1000, lat: 50 + STEP, lon: 10, speed: 36 });
+        assert.ok(!result.odometerChanged);
+        assert.ok(Math.abs(computer.odometer - 10) < 0.1);
+    });
+
+    it('must not count the distance while standing or after a gap', () => {
+        const computer = new TripComputer(OPTIONS, 0, []);
+        computer.update({ ts: 0, lat: 50, lon: 10, speed: 0 });
+        // GPS noise while standing
+        computer.update({ ts: 1000, lat: 50 + STEP, lon: 10, speed: 1 });
+        assert.strictEqual(computer.odometer, 0);
+        // receiver was off for 10 minutes
+        computer.update({ ts: 601000, lat: 51, lon: 10, speed: 36 });
+        assert.strictEqual(computer.odometer, 0);
+    });
+});
@@ -0,0 +1,163 @@
+'use strict';
+
+const assert = require('node:assert');
+const {
+    UBX_NAV_PVT,
+    UBX_NAV_SAT,
+    UbxNmeaFramer,
+    parseNavPvt,
+    parseNavSat,
+    ubxChecksum,
+    ubxFixQuality,
+} = require('../../build/lib/ubx');
+
+const GGA = '$GPGGA,100000.00,4800.0000,N,01130.0000,E,1,07,1.1,520.0,M,47.0,M,,*61\r\n';
+
+function frame(id, payload) {
+    const data = Buffer.concat([
+        Buffer.from([0xb5, 0x62, id >> 8, id & 0xff, payload.length, 0]),
+        payload,
+        Buffer.alloc(2),
+    ]);
+    [data[data.length - 2], data[data.length - 1]] = ubxChecksum(data, 2, data.length - 2);
+    return data;
+}
+
+function navPvt() {
+    const payload = Buffer.alloc(92);
+    payload.writeUInt16LE(2026, 4);
+    payload.writeUInt8(10, 6);
+    payload.writeUInt8(19, 7);
+    payload.writeUInt8(8, 8);
+    payload.writeUInt8(30, 9);
+    payload.writeUInt8(15, 10);
+    // date and time valid, fully resolved
+    payload.writeUInt8(0x07, 11);
+    payload.writeInt32LE(500000000, 16);
+    payload.writeUInt8(3, 20);
+    // gnssFixOK, diffSoln, RTK fixed
+    payload.writeUInt8(0x83, 21);
+    payload.writeUInt8(12, 23);
+    payload.writeInt32LE(159640000, 24);
+    payload.writeInt32LE(-435277000, 28);
+    payload.writeInt32LE(12500, 36);
+    payload.writeUInt32LE(1500, 40);
+    payload.writeInt32LE(1250, 48);
+    payload.writeInt32LE(1800, 60);
+    payload.writeInt32LE(9000000, 64);
+    payload.writeUInt16LE(135, 76);
+    return payload;
+}
+
+describe('ubx', () => {
+    it('ubxChecksum must calculate the Fletcher checksum', () => {
+        // UBX-CFG-RATE poll
+        const data = Buffer.from([0xb5, 0x62, 0x06, 0x08, 0x00, 0x00]);
+        assert.deepStrictEqual(ubxChecksum(data, 2, data.length), [0x0e, 0x30]);
+    });
+
+    it('must decode NAV-PVT', () => {
+        const pvt = parseNavPvt(navPvt());
+        assert.strictEqual(pvt.ts, Date.UTC(2026, 9, 19, 8, 30, 15, 500));
+        assert.strictEqual(pvt.lat, -43.5277);
+        assert.strictEqual(pvt.lon, 15.964);
+        assert.strictEqual(pvt.altMsl, 12.5);
+        assert.strictEqual(pvt.hAcc, 1.5);
+        assert.strictEqual(pvt.velN, 1.25);
+        assert.strictEqual(pvt.speed, 1.8);
+        assert.strictEqual(pvt.heading, 90);
+        assert.strictEqual(pvt.pdop, 1.35);
+        assert.strictEqual(pvt.carrSoln, 2);
+        assert.strictEqual(ubxFixQuality(pvt), 4);
+        assert.strictEqual(ubxFixQuality({ ...pvt, fixOk: false }), 0);
+        assert.strictEqual(parseNavPvt(Buffer.alloc(50)), null);
+        // time without date
+        const payload = navPvt();
+        payload.writeUInt8(0x02, 11);
+        assert.strictEqual(parseNavPvt(payload).ts, null);
+    });
+
+    it('must decode NAV-SAT', () => {
+        const payload = Buffer.alloc(8 + 2 * 12);
+        payload.writeUInt8(2, 5);
+        // GPS 10, used
+        payload.writeUInt8(0, 8);
+        payload.writeUInt8(10, 9);
+        payload.writeUInt8(35, 10);
+        payload.writeInt8(45, 11);
+        payload.writeInt16LE(270, 12);
+        payload.writeUInt32LE(0x08, 16);
+        // GLONASS 5, position unknown, not tracked
+        payload.writeUInt8(6, 20);
+        payload.writeUInt8(5, 21);
+        payload.writeInt8(-100, 23);
+        assert.deepStrictEqual(parseNavSat(payload), [
+            { constellation: 'GPS', prn: 10, elevation: 45, azimuth: 270, snr: 35, used: true },
+            { constellation: 'GLONASS', prn: 5, elevation: null, azimuth: null, snr: null, used: false },
+        ]);
+        assert.strictEqual(parseNavSat(payload.subarray(0, 20)), null);
+    });
+
+    it('must separate UBX frames and NMEA sentences', () => {
+        const framer = new UbxNmeaFramer();
+        const pvt = frame(UBX_NAV_PVT, navPvt());
+        const frames = framer.push(
+            Buffer.concat([Buffer.from(GGA), pvt, Buffer.from(GGA), frame(UBX_NAV_SAT, Buffer.alloc(8))]),
+        );
+        assert.deepStrictEqual(
+            frames.map(item => item.type),
+            ['nmea', 'ubx', 'nmea', 'ubx'],
+        );
+        assert.strictEqual(frames[0].line, GGA);
+        assert.strictEqual(frames[1].id, UBX_NAV_PVT);
+        assert.deepStrictEqual(frames[1].payload, navPvt());
+        assert.strictEqual(frames[3].id, UBX_NAV_SAT);
+    });
+
+    it('must keep incomplete frames and lines for the next data', () => {
+        const framer = new UbxNmeaFramer();
+        const data = Buffer.concat([frame(UBX_NAV_PVT, navPvt()), Buffer.from(GGA)]);
+        const frames = [];
+        // split in the header, the payload, the checksum and the sentence
+        for (const [start, end] of [
+            [0, 3],
+            [3, 50],
+            [50, 99],
+            [99, 120],
+            [120, data.length],
+        ]) {
+            frames.push(...framer.push(data.subarray(start, end)));
+        }
+        assert.deepStrictEqual(
+            frames.map(item => item.type),
+            ['ubx', 'nmea'],
+        );
+        assert.strictEqual(frames[1].line, GGA);
+    });
+
+    it('must find the sentence after a frame with a wrong checksum', () => {
+        const framer = new UbxNmeaFramer();
+        const broken = frame(UBX_NAV_PVT, navPvt());
+        broken[broken.length - 1] ^= 0xff;
+        const frames = framer.push(
+            Buffer.concat([Buffer.from(GGA), broken, Buffer.from(GGA), frame(UBX_NAV_SAT, Buffer.alloc(8))]),
+        );
+        assert.deepStrictEqual(
+            frames.map(item => item.line ?? item.id),
+            [GGA, GGA, UBX_NAV_SAT],
+        );
+    });
+
+    it('must not wait long for a frame with a corrupted length', () => {
+        const framer = new UbxNmeaFramer();
+        const broken = frame(UBX_NAV_PVT, navPvt());
+        broken.writeUInt16LE(1000, 4);
+        assert.deepStrictEqual(framer.push(Buffer.concat([broken, Buffer.from(GGA)]), 10000), []);
+        assert.deepStrictEqual(framer.push(Buffer.from(GGA), 11000), []);
+        const frames = framer.push(Buffer.from(GGA), 12500);
+        assert.deepStrictEqual(
+            frames.map(item => item.line),
+            [GGA, GGA, GGA],
+        );
+    });
+});
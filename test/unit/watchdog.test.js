@@ -0,0 +1,53 @@
+'use strict';
+
+const assert = require('node:assert');
+const { Watchdog } = require('../../build/lib/watchdog');
+
+const OPTIONS = { dataTimeout: 5000, fixTimeout: 10000 };
+
+describe('watchdog', () => {
+    it('must report nothing received before the first data', () => {
+        const status = new Watchdog(OPTIONS, 0).status(1000);
+        assert.strictEqual(status.receiving, false);
+        assert.strictEqual(status.fixValid, false);
+        assert.strictEqual(status.fixAge, null);
+        assert.strictEqual(status.lastFixTime, 0);
+    });
+
+    it('must detect the data and fix timeouts', () => {
+        const watchdog = new Watchdog(OPTIONS, 0);
+        watchdog.dataReceived(1000);
+        watchdog.fixReceived(1000);
+        assert.strictEqual(watchdog.status(5999).receiving, true);
+        // data without fix, e.g. in a tunnel
+        watchdog.dataReceived(8000);
+        let status = watchdog.status(8000);
+        assert.strictEqual(status.receiving, true);
+        assert.strictEqual(status.fixValid, true);
+        assert.strictEqual(status.fixAge, 7);
+        status = watchdog.status(13000);
+        assert.strictEqual(status.receiving, false);
+        assert.strictEqual(status.fixValid, false);
+        assert.strictEqual(status.fixAge, 12);
+        assert.strictEqual(status.lastFixTime, 1000);
+    });
+
+    it('must average the sentences per second and report the counters', () => {
+        const watchdog = new Watchdog(OPTIONS, 0);
+        for (let i = 0; i < 55; i++) {
+            watchdog.sentenceReceived();
+        }
+        watchdog.checksumErrors = 2;
+        watchdog.reconnects++;
+        // not updated before the end of the window
+        assert.strictEqual(watchdog.status(5000).sentencesPerSecond, 0);
+        const status = watchdog.status(10000);
+        assert.strictEqual(status.sentencesPerSecond, 5.5);
+        assert.strictEqual(status.checksumErrors, 2);
+        assert.strictEqual(status.parseErrors, 0);
+        assert.strictEqual(status.reconnects, 1);
+        // kept until the next window ends
+        assert.strictEqual(watchdog.status(15000).sentencesPerSecond, 5.5);
+        assert.strictEqual(watchdog.status(20000).sentencesPerSecond, 0);
+    });
+});
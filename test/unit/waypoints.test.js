@@ -0,0 +1,60 @@
+'use strict';
+
+const assert = require('node:assert');
+const { WaypointNavigator, parseWaypoints } = require('../../build/lib/waypoints');
+
+describe('waypoints', () => {
+    it('parseWaypoints must skip invalid, reserved and duplicate waypoints', () => {
+        const errors = [];
+        const waypoints = parseWaypoints(
+            [
+                { name: 'Harbour', latitude: '54.3', longitude: '10.1' },
+                { name: 'Harbour', latitude: '54.4', longitude: '10.2' },
+                { name: 'list', latitude: '54.5', longitude: '10.3' },
+                { name: 'Buoy', latitude: '95', longitude: '10.4' },
+                { name: '', latitude: '54.6', longitude: '10.5' },
+                { name: 'Off', latitude: '54.7', longitude: '10.6', enabled: false },
+            ],
+            text => errors.push(text),
+        );
+        assert.deepStrictEqual(
+            waypoints.map(waypoint => waypoint.name),
+            ['Harbour'],
+        );
+        assert.strictEqual(errors.length, 4);
+    });
+
+    it('must calculate distance, bearing and ETA', () => {
+        // 1' of latitude to the north is 1 nautical mile
+        const navigator = new WaypointNavigator([{ id: 'north', name: 'North', lat: 54 + 1 / 60, lon: 10 }]);
+        const [info] = navigator.update(1000, 54, 10, 0, 18.52);
+        assert.ok(Math.abs(info.distance - 1852) < 5);
+        assert.ok(Math.abs(info.bearing) < 0.01);
+        assert.ok(Math.abs(info.crossTrack) < 0.01);
+        // 1852 m at 18.52 km/h take 360 s
+        assert.ok(Math.abs(info.timeToGo - 360) < 1);
+        assert.strictEqual(info.eta, 1000 + info.timeToGo * 1000);
+    });
+
+    it('must not estimate the ETA without course or when moving away', () => {
+        const navigator = new WaypointNavigator([{ id: 'north', name: 'North', lat: 54.1, lon: 10 }]);
+        assert.strictEqual(navigator.update(1000, 54, 10, null, 10)[0].eta, null);
+        const [info] = navigator.update(2000, 54, 10, 180, 10);
+        assert.strictEqual(info.eta, null);
+        assert.strictEqual(info.timeToGo, null);
+    });
+
+    it('must smooth the speed and count every epoch once', () => {
+        const navigator = new WaypointNavigator([]);
+        navigator.update(0, 54, 10, 0, 0);
+        assert.strictEqual(navigator.smoothedSpeed, 0);
+        navigator.update(10000, 54, 10, 0, 30);
+        const smoothed = navigator.smoothedSpeed;
+        assert.ok(smoothed > 0 && smoothed < 30);
+        // GGA and RMC of the same epoch
+        navigator.update(10000, 54, 10, 0, 30);
+        assert.strictEqual(navigator.smoothedSpeed, smoothed);
+        navigator.update(11000, 54, 10, 0, 30);
+        assert.ok(navigator.smoothedSpeed > smoothed && navigator.smoothedSpeed < 30);
+    });
+});